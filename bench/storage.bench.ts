@@ -0,0 +1,97 @@
+import { Component } from '../src/component';
+import { Entity } from '../src/entity';
+import { EntityManager } from '../src/entity-manager';
+import { ArchetypeStorage, MapStorage, StorageFactory } from '../src/storage';
+
+/** Benchmarks for the component storage backends, run with: npm run bench */
+
+const ENTITY_COUNT = 50000;
+const FRAMES = 10;
+
+class Position extends Component {
+  constructor(public x: number, public y: number) {
+    super();
+  }
+}
+
+class Velocity extends Component {
+  constructor(public x: number, public y: number) {
+    super();
+  }
+}
+
+class Stunned extends Component {}
+
+interface Benchmark {
+  name: string;
+  run: (em: EntityManager) => void;
+}
+
+const BENCHMARKS: Benchmark[] = [
+  {
+    name: `update Position on ${ENTITY_COUNT} entities x ${FRAMES} frames`,
+    run: (em) => {
+      for (let frame = 0; frame < FRAMES; ++frame) {
+        em.each(
+          (e: Entity, p: Position, v: Velocity) =>
+            em.setComponent(e.id, new Position(p.x + v.x, p.y + v.y)),
+          Position,
+          Velocity
+        );
+      }
+    },
+  },
+  {
+    name: `add then remove a component on ${ENTITY_COUNT} entities x ${FRAMES} frames`,
+    run: (em) => {
+      const ids = em.matchingIds(Position);
+      for (let frame = 0; frame < FRAMES; ++frame) {
+        ids.forEach((id) => em.setComponent(id, new Stunned()));
+        ids.forEach((id) => em.removeComponent(id, Stunned));
+      }
+    },
+  },
+  {
+    name: `read components of ${ENTITY_COUNT} entities x ${FRAMES} frames`,
+    run: (em) => {
+      let total = 0;
+      for (let frame = 0; frame < FRAMES; ++frame) {
+        em.each(
+          (e: Entity, p: Position, v: Velocity) => (total += p.x + v.x),
+          Position,
+          Velocity
+        );
+      }
+    },
+  },
+];
+
+function populate(em: EntityManager): void {
+  for (let i = 0; i < ENTITY_COUNT; ++i) {
+    em.create(new Position(i, i), new Velocity(1, -1));
+  }
+}
+
+function time(fn: () => void): number {
+  const start = performance.now();
+  fn();
+  return performance.now() - start;
+}
+
+const STORAGES: [string, StorageFactory][] = [
+  ['MapStorage', () => new MapStorage()],
+  ['ArchetypeStorage', () => new ArchetypeStorage()],
+];
+
+for (const [storageName, storage] of STORAGES) {
+  console.log(`-- ${storageName} --`);
+  const em = new EntityManager({ storage });
+  console.log(
+    `create ${ENTITY_COUNT} entities: ${time(() => populate(em)).toFixed(1)}ms`
+  );
+  for (const benchmark of BENCHMARKS) {
+    console.log(
+      `${benchmark.name}: ${time(() => benchmark.run(em)).toFixed(1)}ms`
+    );
+  }
+}
@@ -0,0 +1,133 @@
+import { fromBinary, toBinary } from './binary';
+import { Component, EntityManager } from './entity-manager';
+import { Schema } from './schema';
+import { Position, Renderable } from './dummy-components.model';
+
+class Note extends Component {
+  constructor({ text, weight }: { text: string; weight: number }) {
+    super();
+    this.text = text;
+    this.weight = weight;
+  }
+  text: string;
+  weight: number;
+}
+
+class Visited extends Component {
+  static schema = new Schema({
+    tiles: { setOf: 'string' },
+    at: 'date',
+  });
+
+  constructor(public tiles: Set<string>, public at: Date) {
+    super();
+  }
+}
+
+describe('Binary snapshots', () => {
+  let em: EntityManager;
+  const types = { Position, Note, Visited };
+
+  beforeEach(() => {
+    em = new EntityManager();
+    em.indexBy(Position);
+    em.create(new Position({ x: -3, y: 2.5 }));
+    em.create(
+      new Note({ text: 'héllo wörld ✓ 🗺️', weight: 1e300 }),
+      new Visited(new Set(['1,1', '2,2']), new Date(Date.UTC(2020, 0, 1)))
+    );
+    em.create(new Note({ text: '', weight: -0.125 }));
+  });
+
+  it('should hold the same data as the JSON export', () => {
+    expect(fromBinary(em.exportBinary())).toEqual(em.export());
+  });
+
+  it('should round trip through import', () => {
+    const other = new EntityManager();
+    other.importBinary(em.exportBinary(), types);
+    expect(other.export()).toEqual(em.export());
+    expect(other.getComponent(2, Visited)!.tiles).toEqual(
+      new Set(['1,1', '2,2'])
+    );
+    expect(other.matchingIndex(new Position({ x: -3, y: 2.5 })).length).toBe(1);
+  });
+
+  it('should encode JSON data in the same way as the entity manager', () => {
+    expect(new Uint8Array(toBinary(em.export()))).toEqual(
+      new Uint8Array(em.exportBinary())
+    );
+  });
+
+  it('should give the same bytes for the same state', () => {
+    const other = new EntityManager();
+    other.import(em.export(), types);
+    other.setComponent(1, new Position({ x: -3, y: 2.5 }));
+    expect(new Uint8Array(other.exportBinary())).toEqual(
+      new Uint8Array(em.exportBinary())
+    );
+  });
+
+  it('should give the same bytes whatever order indexes were created in', () => {
+    em.indexBy(Note);
+    const other = new EntityManager();
+    other.import({ ...em.export(), indexed: [] }, types);
+    other.indexBy(Note);
+    other.indexBy(Position);
+    expect(other.export().indexed).toEqual(['Note', 'Position']);
+    expect(new Uint8Array(other.exportBinary())).toEqual(
+      new Uint8Array(em.exportBinary())
+    );
+    expect(
+      new Uint8Array(
+        toBinary({ ...em.export(), indexed: ['Position', 'Note'] })
+      )
+    ).toEqual(new Uint8Array(em.exportBinary()));
+  });
+
+  it('should be smaller than the JSON export', () => {
+    for (let i = 0; i < 100; ++i) {
+      em.create(new Position({ x: i, y: i }), new Renderable('tree', 1));
+    }
+    expect(em.exportBinary().byteLength).toBeLessThan(
+      JSON.stringify(em.export()).length / 2
+    );
+  });
+
+  it('should leave out values that JSON leaves out', () => {
+    const data = fromBinary(
+      toBinary({
+        indexed: [],
+        entities: {
+          '1': {
+            Note: { text: undefined, weight: NaN, list: [undefined, () => 1] },
+          },
+        },
+      })
+    );
+    expect(data.entities[1].Note).toEqual(
+      JSON.parse(
+        JSON.stringify({
+          text: undefined,
+          weight: NaN,
+          list: [undefined, () => 1],
+        })
+      )
+    );
+  });
+
+  it('should reject data that is not in the format', () => {
+    const bytes = new Uint8Array(em.exportBinary());
+    expect(() => fromBinary(new Uint8Array([1, 2, 3, 4, 5]))).toThrow(
+      'Binary data is not in the rad-ecs format!'
+    );
+    expect(() => fromBinary(bytes.slice(0, bytes.length - 1))).toThrow(
+      'Binary data is truncated'
+    );
+    const newer = bytes.slice();
+    newer[4] = 99;
+    expect(() => fromBinary(newer)).toThrow(
+      'Binary format version: 99 is newer than the supported version: 1!'
+    );
+  });
+});
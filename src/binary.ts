@@ -0,0 +1,411 @@
+import { ECSData } from './entity-manager';
+import { AnyJson, JsonObject } from './types';
+
+/** Exported data in which component data can be any value that would be serialised as JSON, rather than a copy of it
+ * that already has been, so that components can be encoded without going through JSON
+ */
+export interface BinaryInput {
+  version?: number;
+  indexed: string[];
+  entities: { [entityId: string]: { [componentName: string]: any } };
+}
+
+/** Version of the binary format itself, which is separate from the version of the data it holds */
+const FORMAT_VERSION = 1;
+
+const MAGIC = [0x52, 0x45, 0x43, 0x53];
+
+enum Tag {
+  Null,
+  False,
+  True,
+  Integer,
+  NegativeInteger,
+  Float,
+  String,
+  Array,
+  Object,
+}
+
+/** Encode exported data in a compact binary format
+ *
+ * The layout is a header, a table of every distinct string, then the data version, the indexed component names and the
+ * entities. Strings are written once in the table and referred to by their position in it, and numbers are written as
+ * variable length integers where they can be. Values are encoded as JSON.stringify() would see them, so the result
+ * decodes to the same data as exporting to JSON.
+ *
+ * @note - Entities are written in order of id, and indexed component names, components and the fields of objects in
+ *         order of name, so the same data always gives the same bytes.
+ *
+ * @see fromBinary - Decodes the result
+ */
+export function toBinary(data: BinaryInput | ECSData): ArrayBuffer {
+  const strings = new Map<string, number>();
+  const stringIndex = (value: string) => {
+    if (!strings.has(value)) {
+      strings.set(value, strings.size);
+    }
+    return strings.get(value)!;
+  };
+
+  const body = new ByteWriter();
+  body.uint(data.version === undefined ? 0 : data.version);
+  body.uint(data.indexed.length);
+  data.indexed
+    .slice()
+    .sort()
+    .forEach((name) => body.uint(stringIndex(name)));
+  const ids = Object.keys(data.entities)
+    .map(Number)
+    .sort((a, b) => a - b);
+  body.uint(ids.length);
+  for (const id of ids) {
+    const components = data.entities[id];
+    const names = Object.keys(components)
+      .filter((name) => isSerialisable(toJson(components[name])))
+      .sort();
+    body.uint(id);
+    body.uint(names.length);
+    for (const name of names) {
+      body.uint(stringIndex(name));
+      writeValue(body, toJson(components[name]), stringIndex);
+    }
+  }
+
+  const head = new ByteWriter();
+  MAGIC.forEach((byte) => head.byte(byte));
+  head.byte(FORMAT_VERSION);
+  head.uint(strings.size);
+  strings.forEach((_, value) => head.string(value));
+  return concat(head.bytes(), body.bytes());
+}
+
+/** Decode data encoded by toBinary(), to the same data as exporting to JSON
+ *
+ * @throws {Error} - If the data isn't in the binary format, is from a newer version of it, or is truncated
+ */
+export function fromBinary(buffer: ArrayBuffer | Uint8Array): ECSData | never {
+  const reader = new ByteReader(
+    buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer)
+  );
+  for (const byte of MAGIC) {
+    if (reader.byte() !== byte) {
+      throw Error(`Binary data is not in the rad-ecs format!`);
+    }
+  }
+  const format = reader.byte();
+  if (format > FORMAT_VERSION) {
+    throw Error(
+      `Binary format version: ${format} is newer than the supported version: ${FORMAT_VERSION}!`
+    );
+  }
+  const strings: string[] = [];
+  for (let count = reader.uint(); count > 0; --count) {
+    strings.push(reader.string());
+  }
+  const string = () => {
+    const index = reader.uint();
+    if (index >= strings.length) {
+      throw Error(`Binary data refers to a string: ${index} that is missing!`);
+    }
+    return strings[index];
+  };
+
+  const version = reader.uint();
+  const data: ECSData = { indexed: [], entities: {} };
+  if (version !== 0) {
+    data.version = version;
+  }
+  for (let count = reader.uint(); count > 0; --count) {
+    data.indexed.push(string());
+  }
+  for (let count = reader.uint(); count > 0; --count) {
+    const components: JsonObject = {};
+    data.entities[reader.uint()] = components;
+    for (
+      let componentCount = reader.uint();
+      componentCount > 0;
+      --componentCount
+    ) {
+      const name = string();
+      components[name] = readValue(reader, string);
+    }
+  }
+  if (!reader.done()) {
+    throw Error(
+      `Binary data has: ${reader.remaining()} bytes left over after the entities!`
+    );
+  }
+  return data;
+}
+
+/** Get the value that JSON.stringify() would serialise in place of another */
+function toJson(value: any): any {
+  return value !== null &&
+    typeof value === 'object' &&
+    typeof value.toJSON === 'function'
+    ? value.toJSON()
+    : value;
+}
+
+/** Whether JSON.stringify() would include a value, rather than leaving it out of an object */
+function isSerialisable(value: any): boolean {
+  return (
+    value !== undefined &&
+    typeof value !== 'function' &&
+    typeof value !== 'symbol'
+  );
+}
+
+function writeValue(
+  writer: ByteWriter,
+  value: any,
+  stringIndex: (value: string) => number
+): void {
+  if (value === null || !isSerialisable(value)) {
+    writer.byte(Tag.Null);
+  } else if (typeof value === 'boolean') {
+    writer.byte(value ? Tag.True : Tag.False);
+  } else if (typeof value === 'number') {
+    if (!isFinite(value)) {
+      writer.byte(Tag.Null);
+    } else if (Number.isSafeInteger(value)) {
+      writer.byte(value < 0 ? Tag.NegativeInteger : Tag.Integer);
+      writer.uint(Math.abs(value));
+    } else {
+      writer.byte(Tag.Float);
+      writer.float(value);
+    }
+  } else if (typeof value === 'string') {
+    writer.byte(Tag.String);
+    writer.uint(stringIndex(value));
+  } else if (Array.isArray(value)) {
+    writer.byte(Tag.Array);
+    writer.uint(value.length);
+    value.forEach((item) => writeValue(writer, toJson(item), stringIndex));
+  } else {
+    const fields = Object.keys(value)
+      .filter((field) => isSerialisable(toJson(value[field])))
+      .sort();
+    writer.byte(Tag.Object);
+    writer.uint(fields.length);
+    for (const field of fields) {
+      writer.uint(stringIndex(field));
+      writeValue(writer, toJson(value[field]), stringIndex);
+    }
+  }
+}
+
+function readValue(reader: ByteReader, string: () => string): AnyJson {
+  const tag = reader.byte();
+  switch (tag) {
+    case Tag.Null:
+      return null;
+    case Tag.False:
+      return false;
+    case Tag.True:
+      return true;
+    case Tag.Integer:
+      return reader.uint();
+    case Tag.NegativeInteger:
+      return -reader.uint();
+    case Tag.Float:
+      return reader.float();
+    case Tag.String:
+      return string();
+    case Tag.Array: {
+      const array: AnyJson[] = [];
+      for (let count = reader.uint(); count > 0; --count) {
+        array.push(readValue(reader, string));
+      }
+      return array;
+    }
+    case Tag.Object: {
+      const object: JsonObject = {};
+      for (let count = reader.uint(); count > 0; --count) {
+        const field = string();
+        object[field] = readValue(reader, string);
+      }
+      return object;
+    }
+    default:
+      throw Error(`Binary data has an unknown value type: ${tag}!`);
+  }
+}
+
+function concat(first: Uint8Array, second: Uint8Array): ArrayBuffer {
+  const bytes = new Uint8Array(first.length + second.length);
+  bytes.set(first);
+  bytes.set(second, first.length);
+  return bytes.buffer;
+}
+
+/** Appends bytes to a buffer that grows as needed */
+class ByteWriter {
+  private buffer = new Uint8Array(256);
+  private length = 0;
+  private view = new DataView(this.buffer.buffer);
+
+  byte(value: number): void {
+    this.reserve(1);
+    this.buffer[this.length++] = value;
+  }
+
+  /** Write a non-negative integer in as few bytes as it needs, seven bits to a byte */
+  uint(value: number): void {
+    while (value >= 0x80) {
+      this.byte(value % 0x80 | 0x80);
+      value = Math.floor(value / 0x80);
+    }
+    this.byte(value);
+  }
+
+  float(value: number): void {
+    this.reserve(8);
+    this.view.setFloat64(this.length, value);
+    this.length += 8;
+  }
+
+  /** Write a string as its length in bytes followed by its UTF-8 encoding */
+  string(value: string): void {
+    const bytes = encodeUtf8(value);
+    this.uint(bytes.length);
+    this.reserve(bytes.length);
+    this.buffer.set(bytes, this.length);
+    this.length += bytes.length;
+  }
+
+  bytes(): Uint8Array {
+    return this.buffer.subarray(0, this.length);
+  }
+
+  private reserve(count: number): void {
+    if (this.length + count <= this.buffer.length) {
+      return;
+    }
+    let size = this.buffer.length * 2;
+    while (size < this.length + count) {
+      size *= 2;
+    }
+    const buffer = new Uint8Array(size);
+    buffer.set(this.bytes());
+    this.buffer = buffer;
+    this.view = new DataView(buffer.buffer);
+  }
+}
+
+/** Reads values written by a ByteWriter */
+class ByteReader {
+  private offset = 0;
+  private view: DataView;
+
+  constructor(private buffer: Uint8Array) {
+    this.view = new DataView(
+      buffer.buffer,
+      buffer.byteOffset,
+      buffer.byteLength
+    );
+  }
+
+  byte(): number {
+    this.need(1);
+    return this.buffer[this.offset++];
+  }
+
+  uint(): number {
+    let value = 0;
+    let scale = 1;
+    let byte: number;
+    do {
+      byte = this.byte();
+      value += (byte & 0x7f) * scale;
+      scale *= 0x80;
+    } while (byte & 0x80);
+    return value;
+  }
+
+  float(): number {
+    this.need(8);
+    const value = this.view.getFloat64(this.offset);
+    this.offset += 8;
+    return value;
+  }
+
+  string(): string {
+    const length = this.uint();
+    this.need(length);
+    const value = decodeUtf8(
+      this.buffer.subarray(this.offset, this.offset + length)
+    );
+    this.offset += length;
+    return value;
+  }
+
+  done(): boolean {
+    return this.offset === this.buffer.length;
+  }
+
+  remaining(): number {
+    return this.buffer.length - this.offset;
+  }
+
+  private need(count: number): void | never {
+    if (this.offset + count > this.buffer.length) {
+      throw Error(`Binary data is truncated at byte: ${this.offset}!`);
+    }
+  }
+}
+
+function encodeUtf8(value: string): Uint8Array {
+  const bytes: number[] = [];
+  for (const character of value) {
+    const code = character.codePointAt(0)!;
+    if (code < 0x80) {
+      bytes.push(code);
+    } else if (code < 0x800) {
+      bytes.push(0xc0 | (code >> 6), 0x80 | (code & 0x3f));
+    } else if (code < 0x10000) {
+      bytes.push(
+        0xe0 | (code >> 12),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    } else {
+      bytes.push(
+        0xf0 | (code >> 18),
+        0x80 | ((code >> 12) & 0x3f),
+        0x80 | ((code >> 6) & 0x3f),
+        0x80 | (code & 0x3f)
+      );
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  const codes: number[] = [];
+  for (let i = 0; i < bytes.length; ) {
+    const byte = bytes[i++];
+    if (byte < 0x80) {
+      codes.push(byte);
+    } else if (byte < 0xe0) {
+      codes.push(((byte & 0x1f) << 6) | (bytes[i++] & 0x3f));
+    } else if (byte < 0xf0) {
+      codes.push(
+        ((byte & 0x0f) << 12) | ((bytes[i++] & 0x3f) << 6) | (bytes[i++] & 0x3f)
+      );
+    } else {
+      codes.push(
+        ((byte & 0x07) << 18) |
+          ((bytes[i++] & 0x3f) << 12) |
+          ((bytes[i++] & 0x3f) << 6) |
+          (bytes[i++] & 0x3f)
+      );
+    }
+  }
+  let value = '';
+  for (let i = 0; i < codes.length; i += 0x1000) {
+    value += String.fromCodePoint(...codes.slice(i, i + 0x1000));
+  }
+  return value;
+}
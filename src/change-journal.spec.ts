@@ -0,0 +1,179 @@
+import { ChangeEvent, ChangeJournal } from './change-journal';
+import { EntityManager } from './entity-manager';
+import { Position, Renderable } from './dummy-components.model';
+
+describe('Change stream', () => {
+  let em: EntityManager;
+  let events: ChangeEvent[];
+
+  beforeEach(() => {
+    em = new EntityManager();
+    events = [];
+    em.changes$().subscribe((event) => events.push(event));
+  });
+
+  it('should emit each change with increasing sequence numbers', () => {
+    const id = em.create(new Position({ x: 0, y: 0 })).id;
+    em.setComponent(id, new Renderable('tree', 1));
+    em.setComponent(id, new Position({ x: 1, y: 0 }));
+    em.removeComponent(id, Renderable);
+    em.setName(id, 'tree');
+    em.indexBy(Position, { unique: true });
+    em.remove(id);
+    em.clear();
+    expect(events.map((event) => event.kind)).toEqual([
+      'entityCreated',
+      'componentAdded',
+      'componentUpdated',
+      'componentRemoved',
+      'nameSet',
+      'indexCreated',
+      'entityRemoved',
+      'cleared',
+    ]);
+    expect(events.map((event) => event.seq)).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it('should emit changes once they have been applied', () => {
+    const seen: string[] = [];
+    em.changes$().subscribe((event) => {
+      if (event.kind === 'entityCreated' || event.kind === 'entityRemoved') {
+        seen.push(`${event.kind} exists: ${em.exists(event.id)}`);
+      } else if (event.kind === 'componentUpdated') {
+        seen.push(`${event.kind} x: ${em.getComponent(event.id, Position)!.x}`);
+      } else if (event.kind === 'componentRemoved') {
+        seen.push(`${event.kind} has: ${em.hasComponent(event.id, Position)}`);
+      } else if (event.kind === 'nameSet') {
+        seen.push(`${event.kind} named: ${em.getNamed(event.name).id}`);
+      }
+    });
+    em.indexBy(Position);
+    const id = em.create(new Position({ x: 0, y: 0 })).id;
+    em.setComponent(id, new Position({ x: 1, y: 0 }));
+    em.setName(id, 'mover');
+    em.removeComponent(id, Position);
+    em.remove(id);
+    expect(seen).toEqual([
+      'entityCreated exists: true',
+      'componentUpdated x: 1',
+      `nameSet named: ${id}`,
+      'componentRemoved has: false',
+      'entityRemoved exists: false',
+    ]);
+  });
+
+  it('should emit named indexes being dropped, only when they existed', () => {
+    em.createIndex('byX', Position, (position) => position.x);
+    em.dropIndex('byX');
+    em.dropIndex('byX');
+    expect(events.map((event) => event.kind)).toEqual([
+      'indexCreated',
+      'indexDropped',
+    ]);
+    const mirror = new EntityManager();
+    mirror.applyChanges(events);
+    expect(mirror.indexNames()).toEqual([]);
+  });
+
+  it('should emit copies of the components changed', () => {
+    const position = new Position({ x: 0, y: 0 });
+    const id = em.create(position).id;
+    position.x = 5;
+    const [created] = events;
+    expect(created).toEqual({
+      kind: 'entityCreated',
+      id,
+      components: [new Position({ x: 0, y: 0 })],
+      seq: 1,
+    });
+  });
+
+  it('should emit the changes made by a transaction once they have all been made', () => {
+    const id = em.create(new Position({ x: 0, y: 0 })).id;
+    let emittedDuring = 0;
+    em.transaction((tx) => {
+      tx.setComponent(id, new Renderable('tree', 1));
+      tx.remove(id);
+      emittedDuring = events.length;
+    });
+    expect(emittedDuring).toEqual(1);
+    expect(events.map((event) => event.kind)).toEqual([
+      'entityCreated',
+      'componentAdded',
+      'entityRemoved',
+    ]);
+  });
+});
+
+describe('ChangeJournal', () => {
+  let em: EntityManager;
+  let journal: ChangeJournal;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    journal = em.journal({ capacity: 3 });
+  });
+
+  it('should keep only the most recent events', () => {
+    [1, 2, 3, 4].forEach((x) => em.create(new Position({ x, y: 0 })));
+    expect(journal.events().map((event) => event.seq)).toEqual([2, 3, 4]);
+    expect(journal.events(3).map((event) => event.seq)).toEqual([4]);
+    expect(journal.lastSeq()).toEqual(4);
+    journal.dispose();
+    em.create(new Position({ x: 5, y: 0 }));
+    expect(journal.lastSeq()).toBeUndefined();
+  });
+
+  it('should replay changes into another entity manager to mirror its state', () => {
+    const mirror = new EntityManager();
+    journal = em.journal();
+    em.indexBy(Position);
+    em.createIndex('byX', Position, (position) => position.x);
+    const id = em.create(new Position({ x: 1, y: 1 })).id;
+    em.setName(id, 'first');
+    let seq = journal.replayInto(mirror);
+    expect(mirror.export()).toEqual(em.export());
+
+    em.setComponent(id, new Position({ x: 2, y: 2 }));
+    em.create(new Renderable('tree', 1));
+    seq = journal.replayInto(mirror, seq);
+    expect(seq).toEqual(journal.lastSeq());
+    expect(mirror.export()).toEqual(em.export());
+    expect(mirror.findByIndex('byX', 2).map((e) => e.id)).toEqual([id]);
+    expect(mirror.getNamed('first').id).toEqual(id);
+
+    em.import(em.export(), { Position, Renderable });
+    journal.replayInto(mirror, seq);
+    expect(mirror.export()).toEqual(em.export());
+  });
+
+  it('should replay names restored and removed by undoing', () => {
+    const mirror = new EntityManager();
+    journal = em.journal();
+    const history = em.history();
+    const first = em.create(new Position({ x: 1, y: 1 })).id;
+    const second = em.create(new Position({ x: 2, y: 2 })).id;
+    em.setName(first, 'leader');
+    em.setName(second, 'leader');
+    history.undo();
+    let seq = journal.replayInto(mirror);
+    expect(mirror.getNamed('leader').id).toEqual(first);
+    history.undo();
+    seq = journal.replayInto(mirror, seq);
+    expect(mirror.export()).toEqual(em.export());
+    expect(() => mirror.getNamed('leader')).toThrow();
+    history.redo();
+    journal.replayInto(mirror, seq);
+    expect(mirror.getNamed('leader').id).toEqual(first);
+  });
+
+  it('should roll back the changes that were applied before one that fails', () => {
+    const mirror = new EntityManager();
+    em.create(new Position({ x: 1, y: 1 }));
+    const [created] = journal.events();
+    expect(() => mirror.applyChanges([created, created])).toThrow(
+      "Entity with id: 1 can't be created, it already exists!"
+    );
+    expect(mirror.count()).toEqual(0);
+  });
+});
@@ -0,0 +1,176 @@
+import { Observable, Subscription } from 'rxjs';
+import { Component, ComponentConstructor } from './component';
+import { EntityId, EntityManager } from './entity-manager';
+import { Mutation } from './mutation';
+import { Point } from './spatial-index';
+import { IndexKeyExtractor } from './value-index';
+
+/** How an index was set up, enough to set up the same index on another entity manager */
+export type IndexDefinition =
+  | { type: 'value'; componentType: ComponentConstructor; unique: boolean }
+  | {
+      type: 'named';
+      name: string;
+      componentTypes: ComponentConstructor[];
+      key: IndexKeyExtractor;
+    }
+  | {
+      type: 'range';
+      componentType: ComponentConstructor;
+      key: (component: any) => number;
+    }
+  | {
+      type: 'spatial';
+      componentType: ComponentConstructor;
+      cellSize: number;
+      position: (component: any) => Point;
+    };
+
+/** A single change to the state of an entity manager, with copies of the components involved */
+export type WorldChange =
+  | { kind: 'entityCreated'; id: EntityId; components: Component[] }
+  | { kind: 'entityRemoved'; id: EntityId; components: Component[] }
+  | { kind: 'componentAdded'; id: EntityId; component: Component }
+  | {
+      kind: 'componentUpdated';
+      id: EntityId;
+      component: Component;
+      previous: Component;
+    }
+  | { kind: 'componentRemoved'; id: EntityId; previous: Component }
+  | { kind: 'nameSet'; id: EntityId; name: string; previous?: EntityId }
+  | { kind: 'nameRemoved'; id: EntityId; name: string }
+  | { kind: 'indexCreated'; index: IndexDefinition }
+  | { kind: 'indexDropped'; name: string }
+  | { kind: 'cleared' };
+
+/** A change as emitted by EntityManager.changes$(), numbered in the order the changes were made */
+export type ChangeEvent = WorldChange & { seq: number };
+
+/** Describe a mutation as a change, copying the components so that later changes to them aren't seen */
+export function changeOf(mutation: Mutation): WorldChange {
+  switch (mutation.type) {
+    case 'create':
+      return {
+        kind: 'entityCreated',
+        id: mutation.id,
+        components: mutation.components.map((c) => c.clone()),
+      };
+    case 'remove':
+      return {
+        kind: 'entityRemoved',
+        id: mutation.id,
+        components: mutation.components.map((c) => c.clone()),
+      };
+    case 'setComponent':
+      return mutation.previous
+        ? {
+            kind: 'componentUpdated',
+            id: mutation.id,
+            component: mutation.component.clone(),
+            previous: mutation.previous.clone(),
+          }
+        : {
+            kind: 'componentAdded',
+            id: mutation.id,
+            component: mutation.component.clone(),
+          };
+    case 'removeComponent':
+      return {
+        kind: 'componentRemoved',
+        id: mutation.id,
+        previous: mutation.previous.clone(),
+      };
+    case 'setName':
+      return {
+        kind: 'nameSet',
+        id: mutation.id,
+        name: mutation.name,
+        previous: mutation.previous,
+      };
+    case 'removeName':
+      return { kind: 'nameRemoved', id: mutation.id, name: mutation.name };
+  }
+}
+
+export interface JournalOptions {
+  /** Maximum number of events kept, the oldest events are discarded beyond this. Defaults to 1000 */
+  capacity?: number;
+}
+
+/** Keeps the most recent changes made to an EntityManager so that they can be replayed into another one, e.g. to keep
+ * a mirror of the state up to date
+ *
+ * @see EntityManager.journal - Starts recording the changes of an entity manager
+ */
+export class ChangeJournal {
+  private entries: ChangeEvent[] = [];
+  private subscription: Subscription;
+
+  /**
+   * @param changes$ - The changes to record
+   * @param options - Configuration for how many changes are kept
+   */
+  constructor(
+    changes$: Observable<ChangeEvent>,
+    private options: JournalOptions = {}
+  ) {
+    this.subscription = changes$.subscribe((event) => this.push(event));
+  }
+
+  /** Get the recorded events, oldest first
+   *
+   * @param after - Only include events with a sequence number greater than this
+   */
+  events(after = 0): ChangeEvent[] {
+    return this.entries.filter((event) => event.seq > after);
+  }
+
+  /** Get the sequence number of the most recent event, or undefined if none are recorded */
+  lastSeq(): number | undefined {
+    return this.entries.length === 0
+      ? undefined
+      : this.entries[this.entries.length - 1].seq;
+  }
+
+  /** Apply the recorded events to another entity manager
+   *
+   * The target should be in the state that the first event replayed was made in, e.g. empty if the journal was started
+   * on an empty entity manager and no events have been discarded since.
+   *
+   * @param target - The entity manager to apply the events to
+   * @param after - Only replay events with a sequence number greater than this, e.g. the number returned by the last
+   *                replay into the same target
+   *
+   * @returns - The sequence number of the last event replayed, or after if there were none
+   *
+   * @throws {Error} - If an event can't be applied to the target
+   *
+   * @see EntityManager.applyChanges
+   */
+  replayInto(target: EntityManager, after = 0): number | never {
+    const events = this.events(after);
+    target.applyChanges(events);
+    return events.length === 0 ? after : events[events.length - 1].seq;
+  }
+
+  /** Discard all recorded events */
+  clear(): void {
+    this.entries = [];
+  }
+
+  /** Stop recording changes and discard all recorded events */
+  dispose(): void {
+    this.subscription.unsubscribe();
+    this.clear();
+  }
+
+  private push(event: ChangeEvent): void {
+    this.entries.push(event);
+    const capacity =
+      this.options.capacity === undefined ? 1000 : this.options.capacity;
+    if (this.entries.length > capacity) {
+      this.entries.splice(0, this.entries.length - capacity);
+    }
+  }
+}
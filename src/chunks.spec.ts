@@ -0,0 +1,97 @@
+import { ECSData, EntityManager } from './entity-manager';
+import { Position } from './dummy-components.model';
+
+describe('Chunked import and export', () => {
+  let em: EntityManager;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    em.indexBy(Position);
+    for (let i = 0; i < 25; ++i) {
+      em.create(new Position({ x: i, y: i }));
+    }
+  });
+
+  async function collect(chunks: AsyncIterable<ECSData>): Promise<ECSData[]> {
+    const collected: ECSData[] = [];
+    for await (const chunk of chunks) {
+      collected.push(chunk);
+    }
+    return collected;
+  }
+
+  it('should export the entities in chunks, reporting progress', async () => {
+    const progress: number[][] = [];
+    const chunks = await collect(
+      em.exportChunks({
+        chunkSize: 10,
+        onProgress: (entities, total) => progress.push([entities, total]),
+      })
+    );
+    expect(chunks.map((chunk) => Object.keys(chunk.entities).length)).toEqual([
+      10, 10, 5,
+    ]);
+    expect(progress).toEqual([
+      [10, 25],
+      [20, 25],
+      [25, 25],
+    ]);
+    const entities = Object.assign({}, ...chunks.map((c) => c.entities));
+    expect({ ...chunks[0], entities }).toEqual(em.export());
+  });
+
+  it('should export a single chunk for an empty entity manager', async () => {
+    em.clear();
+    const chunks = await collect(em.exportChunks());
+    expect(chunks).toEqual([em.export()]);
+  });
+
+  it('should import chunks to the same state as the export', async () => {
+    const other = new EntityManager();
+    const progress: number[] = [];
+    const highestId = await other.importChunks(
+      em.exportChunks({ chunkSize: 10 }),
+      { Position },
+      { onProgress: (entities) => progress.push(entities) }
+    );
+    expect(highestId).toEqual(25);
+    expect(progress).toEqual([10, 20, 25]);
+    expect(other.export()).toEqual(em.export());
+    expect(other.countIndex(new Position({ x: 3, y: 3 }))).toEqual(1);
+  });
+
+  it('should leave the state as it was if reading a chunk fails', async () => {
+    const before = em.export();
+    async function* failing() {
+      yield { indexed: [], entities: { '100': { Position: { x: 1, y: 1 } } } };
+      throw Error('Connection lost');
+    }
+    await expect(em.importChunks(failing(), { Position })).rejects.toThrow(
+      'Connection lost'
+    );
+    expect(em.export()).toEqual(before);
+  });
+
+  it('should leave the state as it was if a chunk is invalid', async () => {
+    const before = em.export();
+    const chunks: ECSData[] = [
+      { indexed: [], entities: { '1': { Position: { x: 1, y: 1 } } } },
+      { indexed: [], entities: { '2': { Unknown: {} } } },
+    ];
+    await expect(em.importChunks(chunks, { Position })).rejects.toThrow(
+      'Component in input data: Unknown is not in type index!'
+    );
+    expect(em.export()).toEqual(before);
+  });
+
+  it('should not allow an entity to be in more than one chunk', async () => {
+    const chunks: ECSData[] = [
+      { indexed: [], entities: { '1': {} } },
+      { indexed: [], entities: { '1': {} } },
+    ];
+    await expect(em.importChunks(chunks)).rejects.toThrow(
+      'Entity with id: 1 is imported more than once!'
+    );
+    expect(em.count()).toEqual(25);
+  });
+});
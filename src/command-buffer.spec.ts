@@ -0,0 +1,56 @@
+import { Entity } from './entity';
+import { EntityManager } from './entity-manager';
+import { MoveTo, Position, Renderable } from './dummy-components.model';
+
+describe('CommandBuffer', () => {
+  let em: EntityManager;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    for (let x = 0; x < 5; ++x) {
+      em.create(new Position({ x, y: 0 }), new MoveTo({ x: 1, y: 0 }));
+    }
+  });
+
+  it('should not apply queued commands until flushed', () => {
+    const commands = em.commandBuffer();
+    em.each(
+      (e: Entity, m: MoveTo) => commands.removeComponent(e.id, MoveTo),
+      MoveTo
+    );
+    expect(em.matchingIds(MoveTo).length).toEqual(5);
+    expect(commands.size).toEqual(5);
+    commands.flush();
+    expect(em.matchingIds(MoveTo).length).toEqual(0);
+    expect(commands.size).toEqual(0);
+  });
+
+  it('should queue creation, removal and component changes', () => {
+    const commands = em.commandBuffer();
+    let spawned: number[] = [];
+    em.each((e: Entity, p: Position) => {
+      if (p.x % 2 === 0) {
+        commands.remove(e.id);
+      } else {
+        commands.setComponent(e.id, new Renderable('odd', 1));
+        spawned.push(commands.create(new Position({ x: p.x, y: 1 })));
+      }
+    }, Position);
+    commands.flush();
+    expect(em.matchingIds(MoveTo).length).toEqual(2);
+    expect(em.matchingIds(Renderable).length).toEqual(2);
+    expect(spawned.every((id) => em.get(id).has(Position))).toBe(true);
+    expect(em.count()).toEqual(4);
+  });
+
+  it('should discard queued commands when they fail to apply', () => {
+    const commands = em.commandBuffer();
+    const [first] = em.matchingIds(MoveTo);
+    commands.removeComponent(first, MoveTo);
+    commands.remove(first);
+    commands.setComponent(first, new Renderable('gone', 1));
+    expect(() => commands.flush()).toThrow();
+    expect(em.get(first).has(MoveTo)).toBe(true);
+    expect(commands.size).toEqual(0);
+  });
+});
@@ -0,0 +1,34 @@
+import { EntityId, EntityManager } from './entity-manager';
+import { Transaction } from './transaction';
+
+/** Queue of structural changes that are applied to an EntityManager at a later sync point
+ *
+ * Use a command buffer to create and remove entities or components while iterating, where changing the entity manager
+ * directly would alter the set of entities being iterated.
+ *
+ * @see EntityManager.commandBuffer - Creates a command buffer for an entity manager
+ */
+export class CommandBuffer extends Transaction {
+  /**
+   * @param em - The entity manager that commands are applied to
+   * @param reserveId - Provides the id for each entity that a queued create will make
+   */
+  constructor(private em: EntityManager, reserveId: () => EntityId) {
+    super(reserveId);
+  }
+
+  /** Apply all queued commands to the entity manager, in the order they were queued
+   *
+   * Commands are applied as a transaction, so either all of them are applied or none are. The queue is emptied either
+   * way.
+   *
+   * @throws {Error} - If a command can't be applied
+   */
+  flush(): void {
+    try {
+      this.em.commit(this);
+    } finally {
+      this.clear();
+    }
+  }
+}
@@ -0,0 +1,144 @@
+import { Component, EntityManager } from './entity-manager';
+import { Schema } from './schema';
+import { Physical, Position, Renderable, Size } from './dummy-components.model';
+
+/** Defines a component type named as a minifier might, giving every type it defines the same name */
+function minified() {
+  return class t extends Component {};
+}
+
+class Health extends Component {
+  constructor({ current }: { current: number }) {
+    super();
+    this.current = current;
+  }
+  current: number;
+
+  hash(): string {
+    return `${this.current}`;
+  }
+}
+
+describe('Component registry', () => {
+  let em: EntityManager;
+
+  beforeEach(() => {
+    em = new EntityManager();
+  });
+
+  it('should look up registered component types by name before they are used', () => {
+    em.registerComponent(Position, { name: 'pos' });
+    const id = em.create().id;
+    em.setComponentByName(id, 'pos', new Position({ x: 1, y: 2 }));
+    expect(em.getComponentByName(id, 'pos')).toEqual(
+      new Position({ x: 1, y: 2 })
+    );
+    expect(em.componentType('pos')).toBe(Position);
+    expect(em.componentName(Position)).toEqual('pos');
+  });
+
+  it('should reject a component that is not of the type registered under a name', () => {
+    em.registerComponent(Position, { name: 'pos' });
+    const id = em.create().id;
+    expect(() =>
+      em.setComponentByName(id, 'pos', new Physical(Size.FILL))
+    ).toThrow('Component: Physical is not registered as: pos');
+  });
+
+  it('should save and import components by their registered names', () => {
+    em.registerComponent(Position, { name: 'pos' });
+    em.registerComponent(Health, { name: 'hp', indexed: true });
+    em.create(new Position({ x: 1, y: 2 }), new Health({ current: 5 }));
+    const data = em.export();
+    expect(data.entities[1]).toEqual({
+      pos: { x: 1, y: 2 },
+      hp: { current: 5 },
+    });
+    expect(data.indexed).toEqual(['hp']);
+
+    const other = new EntityManager();
+    other.registerComponent(Position, { name: 'pos' });
+    other.registerComponent(Health, { name: 'hp' });
+    other.import(data);
+    expect(other.getComponent(1, Health)).toEqual(new Health({ current: 5 }));
+    expect(other.export()).toEqual(data);
+  });
+
+  it('should keep registered types indexed when cleared', () => {
+    em.registerComponent(Health, { indexed: true });
+    em.create(new Health({ current: 5 }));
+    em.clear();
+    em.create(new Health({ current: 5 }));
+    expect(em.countIndex(new Health({ current: 5 }))).toEqual(1);
+  });
+
+  it('should use the schema given when registering', () => {
+    em.registerComponent(Health, {
+      schema: new Schema({ current: 'number' }),
+    });
+    const id = em.create().id;
+    expect(() =>
+      em.setComponent(id, new Health({ current: '5' as any }))
+    ).toThrow(`Component: Health on entity: ${id} is invalid`);
+  });
+
+  it('should not allow a type or a name to be registered twice', () => {
+    em.registerComponent(Position);
+    expect(() => em.registerComponent(Position, { name: 'pos' })).toThrow(
+      'Component type: Position is already registered as: Position'
+    );
+    expect(() =>
+      em.registerComponent(Renderable, { name: 'Position' })
+    ).toThrow('Component name: Position is already registered!');
+  });
+
+  it('should let registered types take over names learned from use', () => {
+    em.create(new Position({ x: 1, y: 1 }));
+    expect(em.componentType('Position')).toBe(Position);
+    em.registerComponent(Position, { name: 'pos' });
+    expect(em.componentType('Position')).toBeUndefined();
+    expect(
+      em.registeredComponents().map(({ name, type }) => [name, type])
+    ).toEqual([
+      ['Parent', expect.anything()],
+      ['pos', Position],
+    ]);
+  });
+
+  it('should reject a type learned from use under a name in use by another type', () => {
+    const First = minified();
+    const Second = minified();
+    em.create(new First());
+    expect(() => em.create(new Second())).toThrow(
+      'Component name: t is already in use by another type, register one of them under another name!'
+    );
+    expect(em.count()).toEqual(1);
+    const id = em.create().id;
+    expect(() => em.setComponent(id, new Second())).toThrow(
+      'Component name: t is already in use by another type'
+    );
+    expect(em.get(id).components()).toEqual([]);
+
+    em.registerComponent(Second, { name: 'second' });
+    em.setComponent(id, new Second());
+    expect(Object.keys(em.export().entities[id])).toEqual(['second']);
+  });
+
+  it('should only export registered types when registration is required', () => {
+    em = new EntityManager({ requireRegistration: true });
+    em.create(new Position({ x: 1, y: 2 }), new Health({ current: 5 }));
+    em.registerComponent(Position, { name: 'pos' });
+    expect(() => em.export()).toThrow(
+      'Component type: Health must be registered with registerComponent() to be exported!'
+    );
+    expect(() => em.exportBinary()).toThrow(
+      'Component type: Health must be registered with registerComponent() to be exported!'
+    );
+
+    em.registerComponent(Health, { name: 'hp' });
+    expect(em.export().entities[1]).toEqual({
+      pos: { x: 1, y: 2 },
+      hp: { current: 5 },
+    });
+  });
+});
@@ -0,0 +1,130 @@
+import { ComponentConstructor } from './component';
+import { Schema, schemaOf } from './schema';
+
+export interface ComponentRegistration {
+  /** Name the component type is saved and looked up by, defaults to the name of its constructor. Give one explicitly
+   * when the code is minified, as constructor names then change between builds.
+   */
+  name?: string;
+  /** Schema for the component type, used in place of the one it declares with a static `schema` property */
+  schema?: Schema;
+  /** Whether to keep a value index for the component type, as indexBy() does. Defaults to false. */
+  indexed?: boolean;
+}
+
+export interface RegisteredComponent {
+  type: ComponentConstructor;
+  name: string;
+  schema?: Schema;
+  indexed: boolean;
+}
+
+/** The component types known to an entity manager, by name
+ *
+ * Types are registered explicitly with register(), or learned when they're first used under the name of their
+ * constructor. Learned types give way to registered ones that claim the same name, but two types are never known by
+ * the same name, as both would be saved under it.
+ *
+ * @see EntityManager.registerComponent - Registers a component type with an entity manager
+ */
+export class ComponentRegistry {
+  private byName = new Map<string, RegisteredComponent>();
+  private byType = new Map<ComponentConstructor, RegisteredComponent>();
+  private learned = new Set<ComponentConstructor>();
+
+  /** Add a component type to the registry
+   *
+   * @throws {Error} - If the type is already registered, or its name is in use by another registered type
+   */
+  register(
+    type: ComponentConstructor,
+    options: ComponentRegistration = {}
+  ): RegisteredComponent | never {
+    const name = options.name === undefined ? type.name : options.name;
+    const existing = this.byType.get(type);
+    if (existing && !this.learned.has(type)) {
+      throw Error(
+        `Component type: ${type.name} is already registered as: ${existing.name}`
+      );
+    }
+    const named = this.byName.get(name);
+    if (named && named.type !== type && !this.learned.has(named.type)) {
+      throw Error(`Component name: ${name} is already registered!`);
+    }
+    if (existing) {
+      this.forget(existing);
+    }
+    if (named) {
+      this.forget(named);
+    }
+    const registered: RegisteredComponent = {
+      type,
+      name,
+      schema: options.schema,
+      indexed: options.indexed || false,
+    };
+    this.byName.set(name, registered);
+    this.byType.set(type, registered);
+    return registered;
+  }
+
+  /** Add a component type under the name of its constructor, unless it's already known
+   *
+   * @throws {Error} - If the name of its constructor is in use by another type, e.g. as minified constructors share
+   *                   names
+   */
+  learn(type: ComponentConstructor): void | never {
+    if (this.byType.has(type)) {
+      return;
+    }
+    if (this.byName.has(type.name)) {
+      throw Error(
+        `Component name: ${type.name} is already in use by another type, register one of them under another name!`
+      );
+    }
+    this.byName.set(type.name, { type, name: type.name, indexed: false });
+    this.byType.set(type, this.byName.get(type.name)!);
+    this.learned.add(type);
+  }
+
+  /** Check whether a component type was registered explicitly, rather than learned from use */
+  isRegistered(type: ComponentConstructor): boolean {
+    return this.byType.has(type) && !this.learned.has(type);
+  }
+
+  /** Get the component type registered under a name, if any */
+  type(name: string): ComponentConstructor | undefined {
+    const registered = this.byName.get(name);
+    return registered && registered.type;
+  }
+
+  /** Get the name of a component type, which is the name of its constructor unless registered under another */
+  name(type: ComponentConstructor): string {
+    const registered = this.byType.get(type);
+    return registered ? registered.name : type.name;
+  }
+
+  /** Get the schema of a component type, either given when it was registered or declared by the type */
+  schema(type: ComponentConstructor): Schema | undefined {
+    const registered = this.byType.get(type);
+    return (registered && registered.schema) || schemaOf(type);
+  }
+
+  /** Get every component type in the registry, including those learned from use */
+  entries(): RegisteredComponent[] {
+    return Array.from(this.byName.values());
+  }
+
+  /** Get a dictionary of the component types by name, in the form taken by import() */
+  types(): { [name: string]: ComponentConstructor } {
+    const types: { [name: string]: ComponentConstructor } = {};
+    this.byName.forEach(({ type }, name) => (types[name] = type));
+    return types;
+  }
+
+  private forget(registered: RegisteredComponent): void {
+    this.byName.delete(registered.name);
+    this.byType.delete(registered.type);
+    this.learned.delete(registered.type);
+  }
+}
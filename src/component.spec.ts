@@ -0,0 +1,77 @@
+import { Component } from './component';
+import { EntityManager } from './entity-manager';
+
+class Tile extends Component {
+  constructor(
+    public at: { x: number; y: number },
+    public tags = new Set<string>(),
+    public costs = new Map<string, number>()
+  ) {
+    super();
+  }
+}
+
+class Marker extends Component {
+  constructor(public at: { x: number; y: number }) {
+    super();
+  }
+}
+
+class Label extends Component {
+  constructor(public text: string, public colour: string) {
+    super();
+  }
+
+  hash(): string {
+    return this.text;
+  }
+}
+
+describe('Component', () => {
+  it('should hash components by their structure', () => {
+    const tile = new Tile(
+      { x: 1, y: 2 },
+      new Set(['a', 'b']),
+      new Map([['walk', 1]])
+    );
+    const same = new Tile(
+      { y: 2, x: 1 },
+      new Set(['b', 'a']),
+      new Map([['walk', 1]])
+    );
+    expect(tile.hash()).toEqual(same.hash());
+    expect(tile.hash()).not.toEqual(
+      new Tile({ x: 2, y: 1 }, new Set(['a', 'b'])).hash()
+    );
+    expect(tile.hash()).not.toEqual(new Tile({ x: 12, y: 0 }).hash());
+  });
+
+  it('should compare components by type and structure', () => {
+    const tile = new Tile({ x: 1, y: 2 }, new Set(['a']));
+    expect(tile.equals(new Tile({ y: 2, x: 1 }, new Set(['a'])))).toBe(true);
+    expect(tile.equals(new Tile({ x: 1, y: 2 }))).toBe(false);
+    expect(new Marker({ x: 1, y: 2 }).equals(new Tile({ x: 1, y: 2 }))).toBe(
+      false
+    );
+  });
+
+  it('should compare components by an overridden hash', () => {
+    expect(new Label('door', 'red').equals(new Label('door', 'blue'))).toBe(
+      true
+    );
+    expect(new Label('door', 'red').equals(new Label('wall', 'red'))).toBe(
+      false
+    );
+  });
+
+  it('should be indexed by value without a hash being written', () => {
+    const em = new EntityManager();
+    em.indexBy(Tile);
+    const id = em.create(new Tile({ x: 1, y: 2 }, new Set(['a', 'b']))).id;
+    expect(
+      em
+        .matchingIndex(new Tile({ x: 1, y: 2 }, new Set(['b', 'a'])))
+        .map((e) => e.id)
+    ).toEqual([id]);
+  });
+});
@@ -1,9 +1,50 @@
+import { EntityId } from './entity-manager';
 import { Hashable } from './hashtable';
+import { Schema } from './schema';
+import { structuralHash, typeOf } from './utils';
 
 export class Component extends Hashable {
+  /** Declares the fields of the component type, for validation and (de)serialisation */
+  static schema?: Schema;
+
   clone() {
     return Object.assign(Object.create(Object.getPrototypeOf(this)), this);
   }
+
+  /** Get a string that identifies the component's value, for indexing by value
+   *
+   * Defaults to a description of the component's fields, including nested objects, arrays, Maps and Sets, that
+   * doesn't depend on the order they were added in. Override it with something quicker to compute where that matters,
+   * as long as it still gives equal components the same hash and different ones different hashes.
+   *
+   * @throws {Error} - If the component refers to itself
+   */
+  hash(): string {
+    return structuralHash(this);
+  }
+
+  /** Checks whether another component is of the same type and has the same value, as given by hash()
+   */
+  equals(other: Component): boolean {
+    return typeOf(other) === typeOf(this) && other.hash() === this.hash();
+  }
+
+  /** Get a copy of the component with the entity ids that it refers to replaced, used when entities are moved between
+   * entity managers and so given new ids.
+   *
+   * Components that hold entity ids should override this, unless their schema declares the fields that hold them.
+   *
+   * @param remap - Gives the new id for an entity, or undefined if the entity isn't being moved along with this one
+   * @param schema - Schema to use in place of the one declared by the type
+   *
+   * @returns - The component with its references replaced, or undefined if it should be dropped
+   */
+  remapEntities(
+    remap: (id: EntityId) => EntityId | undefined,
+    schema = (this.constructor as typeof Component).schema
+  ): Component | undefined {
+    return schema ? schema.remap(this, remap) : this;
+  }
 }
 
 export type ComponentConstructor = { new (...args: any[]): Component };
@@ -0,0 +1,162 @@
+import {
+  Component,
+  ComponentChange,
+  ECSData,
+  EntityManager,
+} from './entity-manager';
+import { RemovalPolicy } from './hierarchy';
+import { Relation } from './relation';
+import { Position } from './dummy-components.model';
+
+class Label extends Component {
+  text: string;
+  constructor({ text }: { text: string }) {
+    super();
+    this.text = text;
+  }
+}
+
+class Velocity extends Component {
+  x: number;
+  y: number;
+  constructor({ x, y }: { x: number; y: number }) {
+    super();
+    this.x = x;
+    this.y = y;
+  }
+}
+
+class Targets extends Relation {}
+
+const COMPONENT_TYPES = { Position, Label, Velocity, Targets };
+
+describe('Diff and patch', () => {
+  let em: EntityManager;
+  let snapshot: ECSData;
+  let ids: number[];
+
+  beforeEach(() => {
+    em = new EntityManager();
+    ids = [
+      em.create(new Position({ x: 1, y: 1 }), new Label({ text: 'a' })).id,
+      em.create(new Position({ x: 2, y: 2 })).id,
+      em.create(new Label({ text: 'b' })).id,
+    ];
+    snapshot = em.export();
+  });
+
+  const change = () => {
+    em.setComponent(ids[0], new Position({ x: 5, y: 5 }));
+    em.removeComponent(ids[0], Label);
+    em.setComponent(ids[1], new Velocity({ x: 1, y: 0 }));
+    em.remove(ids[2]);
+    em.create(new Label({ text: 'new' }));
+    em.indexBy(Position);
+  };
+
+  it('should produce an empty patch when nothing changed', () => {
+    expect(em.diff(snapshot)).toEqual({
+      indexed: [],
+      created: {},
+      removed: [],
+      changed: {},
+      removedComponents: {},
+    });
+  });
+
+  it('should only contain what changed', () => {
+    change();
+    const patch = em.diff(snapshot);
+    expect(patch.removed).toEqual([ids[2]]);
+    expect(Object.keys(patch.created)).toEqual([`${ids[2] + 1}`]);
+    expect(patch.changed).toEqual({
+      [ids[0]]: { Position: { x: 5, y: 5 } },
+      [ids[1]]: { Velocity: { x: 1, y: 0 } },
+    });
+    expect(patch.removedComponents).toEqual({ [ids[0]]: ['Label'] });
+    expect(patch.indexed).toEqual(['Position']);
+  });
+
+  it('should round trip with export and import', () => {
+    change();
+    const patch = JSON.parse(JSON.stringify(em.diff(snapshot)));
+    const other = new EntityManager();
+    other.import(snapshot, COMPONENT_TYPES);
+    other.applyPatch(patch, COMPONENT_TYPES);
+    expect(other.export()).toEqual(em.export());
+    expect(other.create().id).toEqual(em.create().id);
+  });
+
+  it('should apply the removal of a parent along with its children', () => {
+    const policies: RemovalPolicy[] = ['cascade', 'orphan'];
+    for (const removalPolicy of policies) {
+      const source = new EntityManager({ removalPolicy });
+      const parent = source.create().id;
+      const child = source.create(new Label({ text: 'child' })).id;
+      const grandchild = source.create().id;
+      source.setParent(child, parent);
+      source.setParent(grandchild, child);
+      const before = source.export();
+      source.remove(parent);
+
+      const other = new EntityManager({ removalPolicy });
+      other.import(before, COMPONENT_TYPES);
+      other.applyPatch(source.diff(before), COMPONENT_TYPES);
+      expect(other.export()).toEqual(source.export());
+      if (removalPolicy === 'orphan') {
+        expect(other.getParent(child)).toBeUndefined();
+        expect(other.children(child)).toEqual([grandchild]);
+      } else {
+        expect(other.count()).toEqual(0);
+      }
+    }
+  });
+
+  it('should apply the removal of a relation target', () => {
+    const dragon = em.create().id;
+    const wolf = em.create().id;
+    em.relate(ids[0], Targets, dragon);
+    em.relate(ids[0], Targets, wolf);
+    em.relate(ids[1], Targets, wolf);
+    const before = em.export();
+    em.remove(wolf);
+
+    const other = new EntityManager();
+    other.import(before, COMPONENT_TYPES);
+    other.applyPatch(em.diff(before), COMPONENT_TYPES);
+    expect(other.export()).toEqual(em.export());
+    expect(other.targets(ids[0], Targets)).toEqual([dragon]);
+    expect(other.sources(Targets, wolf)).toEqual([]);
+  });
+
+  it('should apply nothing if the patch does not apply', () => {
+    change();
+    const patch = em.diff(snapshot);
+    const other = new EntityManager();
+    other.import(snapshot, COMPONENT_TYPES);
+    other.remove(ids[1]);
+    const before = other.export();
+    expect(() => other.applyPatch(patch, COMPONENT_TYPES)).toThrow();
+    expect(other.export()).toEqual(before);
+  });
+
+  it('should reject components that are not in the type index', () => {
+    change();
+    const patch = em.diff(snapshot);
+    const other = new EntityManager();
+    other.import(snapshot, COMPONENT_TYPES);
+    expect(() => other.applyPatch(patch, { Position, Label })).toThrow();
+  });
+
+  it('should send a single notification per changed component', () => {
+    change();
+    const patch = em.diff(snapshot);
+    const other = new EntityManager();
+    other.import(snapshot, COMPONENT_TYPES);
+    const changes: ComponentChange<Position>[] = [];
+    other.observeComponentType$(Position).subscribe((c) => changes.push(c));
+    other.applyPatch(patch, COMPONENT_TYPES);
+    expect(changes.length).toEqual(1);
+    expect(changes[0].kind).toEqual('updated');
+  });
+});
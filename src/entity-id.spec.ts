@@ -0,0 +1,185 @@
+import { Entity } from './entity';
+import {
+  entityGeneration,
+  entityId,
+  entityIndex,
+  MAX_GENERATION,
+} from './entity-id';
+import { EntityManager } from './entity-manager';
+import { Position } from './dummy-components.model';
+
+describe('Entity ids', () => {
+  it('should combine an index and generation', () => {
+    const id = entityId(7, 3);
+    expect(entityIndex(id)).toEqual(7);
+    expect(entityGeneration(id)).toEqual(3);
+    expect(entityId(7, 0)).toEqual(7);
+  });
+
+  it('should keep ids of the last generation within the integers a number holds exactly', () => {
+    const id = entityId(2 ** 32 - 1, MAX_GENERATION);
+    expect(Number.isSafeInteger(id)).toBe(true);
+    expect(entityIndex(id)).toEqual(2 ** 32 - 1);
+    expect(entityGeneration(id)).toEqual(MAX_GENERATION);
+    expect(() => entityId(7, MAX_GENERATION + 1)).toThrow(
+      `Entity generation: ${
+        MAX_GENERATION + 1
+      } for index: 7 is beyond the largest: ${MAX_GENERATION}`
+    );
+  });
+});
+
+describe('Id recycling', () => {
+  let em: EntityManager;
+
+  beforeEach(() => {
+    em = new EntityManager({ recycleIds: true });
+  });
+
+  it('should reuse the index of a removed entity with a new generation', () => {
+    const first = em.create().id;
+    em.create();
+    em.remove(first);
+    const reused = em.create().id;
+    expect(entityIndex(reused)).toEqual(entityIndex(first));
+    expect(entityGeneration(reused)).toEqual(1);
+    expect(entityIndex(em.create().id)).toEqual(3);
+  });
+
+  it('should reject stale ids with a clear error', () => {
+    const stale = em.create(new Position({ x: 1, y: 1 })).id;
+    em.remove(stale);
+    const reused = em.create(new Position({ x: 2, y: 2 })).id;
+    expect(() => em.get(stale)).toThrow(/stale/);
+    expect(() => em.getComponent(stale, Position)).toThrow(/stale/);
+    expect(() => em.setComponent(stale, new Position({ x: 3, y: 3 }))).toThrow(
+      /stale/
+    );
+    expect(em.exists(stale)).toBe(false);
+    expect(em.getComponent(reused, Position)).toEqual(
+      new Position({ x: 2, y: 2 })
+    );
+  });
+
+  it('should free the indices of all entities when cleared', () => {
+    const id = em.create().id;
+    em.clear();
+    expect(entityGeneration(em.create().id)).toEqual(1);
+    expect(() => em.get(id)).toThrow(/stale/);
+  });
+
+  it('should not reuse indices by default', () => {
+    const plain = new EntityManager();
+    const first = plain.create().id;
+    plain.remove(first);
+    expect(plain.create().id).toEqual(first + 1);
+  });
+
+  it('should undo and redo the removal of a recycled entity', () => {
+    const id = em.create().id;
+    em.remove(id);
+    const reused = em.create(new Position({ x: 1, y: 1 })).id;
+    const history = em.history();
+    em.remove(reused);
+    history.undo();
+    expect(em.get(reused).has(Position)).toBe(true);
+    expect(entityGeneration(em.create().id)).toEqual(0);
+  });
+
+  it('should reuse removed indices for entities created by a transaction', () => {
+    const first = em.create().id;
+    const second = em.create().id;
+    em.remove(first);
+    em.remove(second);
+    const [a, b, c] = em.transaction((tx) => [
+      tx.create(),
+      tx.create(),
+      tx.create(),
+    ]);
+    expect([a, b].map(entityIndex).sort()).toEqual([1, 2]);
+    expect([a, b].map(entityGeneration)).toEqual([1, 1]);
+    expect(entityIndex(c)).toEqual(3);
+    expect(em.count()).toEqual(3);
+  });
+
+  it('should reuse removed indices for entities created by a command buffer', () => {
+    const first = em.create().id;
+    em.remove(first);
+    const buffer = em.commandBuffer();
+    const reused = buffer.create(new Position({ x: 1, y: 1 }));
+    const fresh = buffer.create();
+    expect(entityIndex(reused)).toEqual(entityIndex(first));
+    expect(entityIndex(fresh)).not.toEqual(entityIndex(first));
+    buffer.flush();
+    expect(em.get(reused).has(Position)).toBe(true);
+    expect(em.exists(fresh)).toBe(true);
+  });
+
+  it('should free reserved indices again when a transaction fails', () => {
+    const first = em.create().id;
+    em.remove(first);
+    expect(() =>
+      em.transaction((tx) => {
+        tx.create();
+        tx.setComponent(first, new Position({ x: 1, y: 1 }));
+      })
+    ).toThrow();
+    expect(() =>
+      em.transaction((tx) => {
+        tx.create();
+        throw Error('Not after all');
+      })
+    ).toThrow('Not after all');
+    expect(em.count()).toEqual(0);
+    expect(entityIndex(em.create().id)).toEqual(entityIndex(first));
+  });
+
+  it('should retire an index once its last generation has been removed', () => {
+    const last = entityId(5, MAX_GENERATION);
+    em.add(new Entity(last));
+    em.remove(last);
+    expect(em.create().id).toEqual(6);
+    em.add(new Entity(entityId(7, MAX_GENERATION)));
+    em.clear();
+    expect(
+      [em.create().id, em.create().id].map((id) => entityIndex(id))
+    ).toEqual([6, 8]);
+  });
+
+  it('should roundtrip recycled ids through export and import', () => {
+    const id = em.create().id;
+    em.remove(id);
+    const reused = em.create(new Position({ x: 1, y: 1 })).id;
+    const imported = new EntityManager({ recycleIds: true });
+    imported.import(em.export(), { Position });
+    expect(imported.get(reused).has(Position)).toBe(true);
+    expect(entityIndex(imported.create().id)).toEqual(2);
+  });
+});
+
+describe('Adding entities', () => {
+  let em: EntityManager;
+
+  beforeEach(() => {
+    em = new EntityManager();
+  });
+
+  it('should not reuse the id of a removed entity', () => {
+    const id = em.create().id;
+    em.remove(id);
+    expect(() => em.add(new Entity(id))).toThrow(/used before/);
+    em.add(new Entity(entityId(id, 1)));
+    expect(() => em.get(id)).toThrow(/stale/);
+  });
+
+  it('should not add a second generation of an index that is in use', () => {
+    const id = em.create().id;
+    expect(() => em.add(new Entity(entityId(id, 1)))).toThrow();
+    expect(() => em.add(new Entity(id))).toThrow();
+  });
+
+  it('should not create an entity with an id that has been added', () => {
+    em.add(new Entity(5));
+    expect(em.create().id).toEqual(6);
+  });
+});
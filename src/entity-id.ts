@@ -0,0 +1,34 @@
+import { EntityId } from './entity-manager';
+
+/** Number of distinct entity indices, the generation is stored above these in an entity id */
+const INDEX_RANGE = 2 ** 32;
+
+/** Largest generation an id can have, ids of later generations are beyond the integers a number holds exactly */
+export const MAX_GENERATION = Math.floor(
+  (Number.MAX_SAFE_INTEGER - (INDEX_RANGE - 1)) / INDEX_RANGE
+);
+
+/** Get the index of an entity id, which is shared by every generation of entity that reuses it */
+export function entityIndex(id: EntityId): number {
+  return id % INDEX_RANGE;
+}
+
+/** Get the generation of an entity id, which increases each time its index is reused */
+export function entityGeneration(id: EntityId): number {
+  return Math.floor(id / INDEX_RANGE);
+}
+
+/** Make the id for an entity from its index and generation
+ *
+ * @throws {Error} - If the generation is beyond MAX_GENERATION
+ *
+ * @note - The first generation is 0, so ids for it are the same as their index
+ */
+export function entityId(index: number, generation: number): EntityId | never {
+  if (generation > MAX_GENERATION) {
+    throw Error(
+      `Entity generation: ${generation} for index: ${index} is beyond the largest: ${MAX_GENERATION}`
+    );
+  }
+  return generation * INDEX_RANGE + index;
+}
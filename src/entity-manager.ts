@@ -1,22 +1,77 @@
-import { Observable, Subject } from 'rxjs';
-import { filter } from 'rxjs/operators';
+import { merge, Observable, Subject } from 'rxjs';
+import { filter, map } from 'rxjs/operators';
+import { BinaryInput, fromBinary, toBinary } from './binary';
+import {
+  ChangeEvent,
+  changeOf,
+  ChangeJournal,
+  IndexDefinition,
+  JournalOptions,
+  WorldChange,
+} from './change-journal';
+import { CommandBuffer } from './command-buffer';
 import { Component, ComponentConstructor } from './component';
-import { ComponentEntry, Entity } from './entity';
-import { Hashable, HashTable } from './hashtable';
-import { JsonObject } from './types';
-import { setIntersect } from './utils';
+import {
+  ComponentRegistration,
+  ComponentRegistry,
+  RegisteredComponent,
+} from './component-registry';
+import { Entity } from './entity';
+import {
+  entityGeneration,
+  entityId,
+  entityIndex,
+  MAX_GENERATION,
+} from './entity-id';
+import { Parent, RemovalPolicy } from './hierarchy';
+import { History, HistoryOptions } from './history';
+import { ComponentMigration, migrate, MigrationRegistry } from './migration';
+import { Mutation, mutatedTypes, previousComponent } from './mutation';
+import { PrefabData, PrefabDefinition, PrefabRegistry } from './prefab';
+import { OptionalComponents, Query } from './query';
+import { QueryView } from './query-view';
+import { RangeBounds, RangeIndex } from './range-index';
+import { Relation, RelationConstructor } from './relation';
+import { componentFromData, componentToData } from './schema';
+import { Point, SpatialIndex } from './spatial-index';
+import { ComponentStorage, MapStorage, StorageFactory } from './storage';
+import { Transaction, TransactionOperation } from './transaction';
+import { AnyJson, CtorsOf, JsonObject } from './types';
+import { jsonEqual, setIntersect, typeOf } from './utils';
+import { IndexKey, IndexKeyExtractor, ValueIndex } from './value-index';
 
 export * from './component';
 
-type Ctor<C> = new (...args: any[]) => C;
-type CtorsOf<T> = { [K in keyof T]: Ctor<T[K]> };
-
 export type EntityId = number;
 
+/** How a component changed: added to an entity, replaced with a new value, or removed */
+export type ComponentChangeKind = 'added' | 'updated' | 'removed';
+
 export interface ComponentChange<T_Component extends Component> {
   id: EntityId;
+  kind: ComponentChangeKind;
+  /** The entity after the change, undefined if the entity was removed */
   e?: Entity;
+  /** The component after the change, undefined if it was removed */
   c?: T_Component;
+  /** The component before the change, undefined if it was added */
+  previous?: T_Component;
+}
+
+/** A change to the entities matching a live query
+ *
+ * The first event is always the entities that match when the query is subscribed to, later events describe entities
+ * starting to match, stopping matching, or having a selected component replaced while matching.
+ */
+export type QueryEvent =
+  | { kind: 'current'; entities: Entity[] }
+  | { kind: 'added'; e: Entity }
+  | { kind: 'removed'; id: EntityId }
+  | { kind: 'changed'; e: Entity };
+
+/** Key of the index set up by indexBy() */
+function hashKey(component: Component): string {
+  return component.hash();
 }
 
 export interface ComponentIndexingInfo {
@@ -24,50 +79,208 @@ export interface ComponentIndexingInfo {
   totalComponents: number;
 }
 
+export interface IndexByOptions {
+  /** Allow only one entity to have each component value, defaults to false */
+  unique?: boolean;
+}
+
 export interface EntityData {
   [entityId: string]: JsonObject;
 }
 export interface ECSData {
+  /** Version of the data format, data without a version is treated as version 1 */
+  version?: number;
   indexed: string[];
   entities: EntityData;
 }
 
+/** The changes between two states of an EntityManager, as produced by diff() */
+export interface ECSPatch {
+  /** Component types that are indexed */
+  indexed: string[];
+  /** Entities that were created, with all of their components */
+  created: EntityData;
+  /** Ids of the entities that were removed */
+  removed: EntityId[];
+  /** Components that were added or changed on existing entities */
+  changed: EntityData;
+  /** Names of the components that were removed from existing entities */
+  removedComponents: { [entityId: string]: string[] };
+}
+
+export interface EntityManagerOptions {
+  /** Creates the backend that components are stored in, defaults to MapStorage */
+  storage?: StorageFactory;
+  /** Version of the data format stamped on exported data, defaults to 1. Increase it when component data changes shape
+   * and register migrations for the old version.
+   */
+  version?: number;
+  /** What happens to the children of an entity when it's removed, defaults to orphaning them */
+  removalPolicy?: RemovalPolicy;
+  /** Reuse the indices of removed entities for new ones, with a new generation so that stale ids are rejected.
+   * Defaults to false.
+   */
+  recycleIds?: boolean;
+  /** Only export component types registered with registerComponent(), rather than saving types learned from use under
+   * the names of their constructors, which change when the code is minified. Defaults to false.
+   */
+  requireRegistration?: boolean;
+}
+
+export interface SpatialIndexOptions<T> {
+  /** Width and height of the cells the index is divided into, defaults to 16 */
+  cellSize?: number;
+  /** Gives the position of a component, defaults to the x and y fields of the component itself */
+  position?: (component: T) => Point;
+}
+
+export interface ImportOptions {
+  /** What to do with components in the data that aren't in the type index: throw an error (the default), drop them, or
+   * keep their raw data so that it is exported again
+   */
+  unknownComponents?: 'throw' | 'drop' | 'keep';
+}
+
+export interface ChunkedImportOptions extends ImportOptions {
+  /** Called after each chunk is read, with the number of entities read so far */
+  onProgress?: (entities: number) => void;
+}
+
+export interface ChunkedExportOptions {
+  /** Number of entities in each chunk, defaults to 1000 */
+  chunkSize?: number;
+  /** Called as each chunk is produced, with the number of entities exported so far and the total to export */
+  onProgress?: (entities: number, total: number) => void;
+}
+
+/** Entities and indexes read from imported data, which replace the current state once all of it has been read */
+interface StagedImport {
+  ids: Set<EntityId>;
+  entities: [EntityId, Component[]][];
+  unknownComponents: Map<EntityId, JsonObject>;
+  indexed: ComponentConstructor[];
+  unknownIndexed: string[];
+  /** Entities by the keys they have in unique indexes, as the imported state will be */
+  uniqueKeys: Map<ValueIndex, Map<string, EntityId>>;
+}
+
+function newStagedImport(): StagedImport {
+  return {
+    ids: new Set<EntityId>(),
+    entities: [],
+    unknownComponents: new Map<EntityId, JsonObject>(),
+    indexed: [],
+    unknownIndexed: [],
+    uniqueKeys: new Map<ValueIndex, Map<string, EntityId>>(),
+  };
+}
+
+/** Wait for other tasks to run, such as rendering a frame */
+function nextTask(): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, 0));
+}
+
 /** Create, monitor, iterate and manage entities comprised of components
  */
 export class EntityManager {
   private currId!: EntityId;
-  private entities!: { [id: number]: Entity };
+  private generations = new Map<number, number>();
+  private freeIndices = new Set<number>();
+  private storage!: ComponentStorage;
   private entityNameMapping!: { [name: string]: EntityId };
   private componentEntities!: Map<ComponentConstructor, Set<EntityId>>;
-  private componentValueEntities!: Map<
+  private valueIndexes!: Map<ComponentConstructor, ValueIndex>;
+  private uniqueTypes = new Set<ComponentConstructor>();
+  private namedIndexes = new Map<string, ValueIndex>();
+  private rangeIndexes = new Map<
     ComponentConstructor,
-    HashTable<Hashable>
-  >;
+    { key: (component: any) => number; index: RangeIndex }
+  >();
+  private spatialIndexes = new Map<
+    ComponentConstructor,
+    { position: (component: any) => Point; index: SpatialIndex }
+  >();
   private entityRegistrations!: Map<number, Subject<Entity | null>>;
   private componentRegistrations!: Map<ComponentConstructor, Subject<any>>;
 
-  private componentConstructorNameRegistry = new Map<
-    string,
-    ComponentConstructor
-  >();
+  private registry = new ComponentRegistry();
+  private views = new Set<QueryView<any, any>>();
+  private histories = new Set<History>();
+  private migrations: MigrationRegistry = new Map();
+  private prefabs = new PrefabRegistry((type) => this.registry.schema(type));
+  private unknownComponents!: Map<EntityId, JsonObject>;
+  private unknownIndexed!: string[];
+  private entityChildren!: Map<EntityId, Set<EntityId>>;
+  private relationSources!: Map<
+    RelationConstructor,
+    Map<EntityId, Set<EntityId>>
+  >;
 
   private initialised = new Subject();
-
-  constructor() {
+  private changes = new Subject<ChangeEvent>();
+  private changeSeq = 0;
+  private storageFactory: StorageFactory;
+  private version: number;
+  private removalPolicy: RemovalPolicy;
+  private recycleIds: boolean;
+  private requireRegistration: boolean;
+  private batch: Mutation[] | null = null;
+  /** Entities whose keys in unique indexes are checked once a transaction has been applied, null outside of one */
+  private uniqueChecks: Set<EntityId> | null = null;
+
+  /**
+   * @param options - Configuration for how the entity manager operates
+   */
+  constructor(options: EntityManagerOptions = {}) {
+    this.storageFactory = options.storage || (() => new MapStorage());
+    this.version = options.version === undefined ? 1 : options.version;
+    this.removalPolicy = options.removalPolicy || 'orphan';
+    this.recycleIds = options.recycleIds || false;
+    this.requireRegistration = options.requireRegistration || false;
+    this.registry.register(Parent, { name: 'Parent' });
     this.init();
   }
 
   private init(idStart = 1): void {
+    if (this.storage) {
+      this.publish({ kind: 'cleared' });
+      for (const view of this.views) {
+        view.ids().forEach((id) => view.refresh(id, undefined));
+      }
+      if (this.recycleIds) {
+        this.storage.ids().forEach((id) => this.freeIndex(entityIndex(id)));
+      }
+    }
     this.currId = idStart;
-    this.entities = {};
+    this.storage = this.storageFactory();
     this.entityNameMapping = {};
     this.componentEntities = new Map<ComponentConstructor, Set<EntityId>>();
-    this.componentValueEntities = new Map<
-      ComponentConstructor,
-      HashTable<Hashable>
-    >();
+    this.valueIndexes = new Map<ComponentConstructor, ValueIndex>();
+    for (const { type, indexed } of this.registry.entries()) {
+      if (indexed) {
+        this.valueIndexes.set(type, new ValueIndex([type], hashKey));
+      }
+    }
+    this.uniqueTypes.forEach((type) =>
+      this.valueIndexes.set(type, new ValueIndex([type], hashKey, true))
+    );
+    this.namedIndexes.forEach((index, name) =>
+      this.namedIndexes.set(name, new ValueIndex(index.types, index.key))
+    );
+    this.rangeIndexes.forEach((range) => (range.index = new RangeIndex()));
+    this.spatialIndexes.forEach(
+      (spatial) => (spatial.index = new SpatialIndex(spatial.index.cellSize))
+    );
     this.entityRegistrations = new Map<number, Subject<Entity | null>>();
     this.componentRegistrations = new Map<ComponentConstructor, Subject<any>>();
+    this.unknownComponents = new Map<EntityId, JsonObject>();
+    this.unknownIndexed = [];
+    this.entityChildren = new Map<EntityId, Set<EntityId>>();
+    this.relationSources = new Map<
+      RelationConstructor,
+      Map<EntityId, Set<EntityId>>
+    >();
+    this.histories.forEach((history) => history.clear());
   }
 
   /** Create a new entity
@@ -75,19 +288,32 @@ export class EntityManager {
    * @param components - Components to add to the new entity
    * @return the new entity
    *
+   * @throws {Error} - If a component doesn't match its type's schema
    */
   create(...components: (Component | undefined)[]): Entity {
-    const id = this.currId++;
-    return this._createEntity(
-      id,
-      ...components.filter((c): c is Component => c !== undefined)
+    return this.createWithNewId(
+      components.filter((c): c is Component => c !== undefined)
     );
   }
 
+  /** Create a new entity from a prefab
+   *
+   * @param name - Name of the prefab
+   * @param overrides - Data for components by name that is merged over the prefab's, null omits a component
+   *
+   * @returns - The new entity
+   *
+   * @throws {Error} - If the prefab doesn't exist, or an override is for a component that isn't in the type index
+   *
+   * @see loadPrefabs - Prefabs must be loaded before they can be instantiated
+   */
+  instantiate(name: string, overrides: JsonObject = {}): Entity | never {
+    return this.create(...this.prefabs.components(name, overrides));
+  }
+
   createClone(id: EntityId): Entity {
-    return this._createEntity(
-      this.currId++,
-      ...this.get(id)
+    return this.createWithNewId(
+      this.get(id)
         .allComponents()
         .map((entry) => entry.component)
     );
@@ -96,8 +322,25 @@ export class EntityManager {
   /** Add an externally created Entity
    *
    * @param entity - Entity to add
+   *
+   * @throws {Error} - If the entity's id, or another generation of its index, is in use. Or if the id belonged to an
+   *                   entity that has been removed, as handles held for that entity would then refer to this one.
    */
-  add(entity: Entity): void {
+  add(entity: Entity): void | never {
+    const index = entityIndex(entity.id);
+    const generation = this.generations.get(index);
+    if (generation !== undefined && generation >= entityGeneration(entity.id)) {
+      throw Error(
+        this.exists(entityId(index, generation))
+          ? `Entity with index: ${index} already exists!`
+          : `Entity with id: ${
+              entity.id
+            } has been used before, use a later generation e.g. ${entityId(
+              index,
+              generation + 1
+            )}`
+      );
+    }
     this._createEntity(
       entity.id,
       ...entity.allComponents().map((entry) => entry.component)
@@ -127,7 +370,7 @@ export class EntityManager {
    */
   setName(id: EntityId, name: string) {
     this.checkEntity(id);
-    this.entityNameMapping[name] = id;
+    this.assignName(id, name);
   }
 
   /** Get an existing entity by its id
@@ -138,7 +381,7 @@ export class EntityManager {
    */
   get(id: EntityId): Entity | never {
     this.checkEntity(id);
-    return this.entities[id];
+    return this.storage.entity(id);
   }
 
   /** Get a component from an entity
@@ -148,10 +391,9 @@ export class EntityManager {
     type: T_Constructor
   ) {
     this.checkEntity(id);
-    return this.entities[id].has(type)
-      ? (this.entities[id]
-          .component(type)
-          .clone() as InstanceType<T_Constructor>)
+    const component = this.storage.get(id, type);
+    return component
+      ? (component.clone() as InstanceType<T_Constructor>)
       : undefined;
   }
 
@@ -172,44 +414,48 @@ export class EntityManager {
     this.checkEntity(id);
     const out = [];
     for (const type of types) {
-      out.push(
-        this.entities[id].has(type)
-          ? this.entities[id].component(type).clone()
-          : undefined
-      );
+      const component = this.storage.get(id, type);
+      out.push(component ? component.clone() : undefined);
     }
     return out;
   }
 
-  /** Get a component from an entity by constructor name
+  /** Get a component from an entity by the name its type is registered under
+   *
+   * @throws {Error} - If no component type is registered under the name, or the entity doesn't exist
    */
   getComponentByName(id: EntityId, componentName: string) {
-    const type = this.componentConstructorNameRegistry.get(componentName);
+    const type = this.registry.type(componentName);
     if (!type) {
       throw Error(`Component name: ${componentName} is not registered!`);
     }
     this.checkEntity(id);
-    return this.entities[id].has(type)
-      ? this.entities[id].component(type).clone()
-      : undefined;
+    const component = this.storage.get(id, type);
+    return component ? component.clone() : undefined;
   }
 
+  /** Add or replace a component on an entity, checking it is of the type registered under a name
+   *
+   * @throws {Error} - If no component type is registered under the name, the component isn't of that type, or the
+   *                   entity doesn't exist
+   */
   setComponentByName(
     id: EntityId,
     componentName: string,
     component: Component
   ) {
-    const type = this.componentConstructorNameRegistry.get(componentName);
+    const type = this.registry.type(componentName);
     if (!type) {
       throw Error(`Component name: ${componentName} is not registered!`);
     }
-    this.checkEntity(id);
-    if (this.entities[id].has(type)) {
-      this.removeComponent(id, type, false);
+    if (typeOf(component) !== type) {
+      throw Error(
+        `Component: ${
+          typeOf(component).name
+        } is not registered as: ${componentName}`
+      );
     }
-    const otherComponents = this.excludeComponents(id, [type]);
-    this.entities[id] = new Entity(id, ...otherComponents, component.clone());
-    this.housekeepAddComponent(id, component);
+    this.setComponent(id, component);
   }
 
   /** Get an existing entity by its name
@@ -235,398 +481,1905 @@ export class EntityManager {
   }
 
   /** Remove an existing entity by ID
+   *
+   * If the entity has children they're removed or orphaned along with it, and relations that target it are removed
+   * from their sources, as a single change.
    *
    * @param id - Id of the entity to remove
+   * @param policy - What happens to the entity's children, defaults to the policy the entity manager was created with
    */
-  remove(id: EntityId): boolean {
+  remove(id: EntityId, policy: RemovalPolicy = this.removalPolicy): boolean {
     if (!this.exists(id)) {
       return false;
     }
-    let components = this.entities[id].allComponents();
-
-    delete this.entities[id];
-    for (const idIndex of this.componentEntities.values()) {
-      idIndex.delete(id);
-    }
-
-    for (const componentEntry of components) {
-      this.housekeepRemoveComponent(id, componentEntry.component, true);
-    }
-
+    this.removeWithChildren(id, policy, new Set<EntityId>());
     return true;
   }
 
-  /** Remove an existing entity by its name
+  /** Set the parent of an entity, making it one of the parent's children
    *
-   * @param name - Name of the entity to remove
+   * @param id - Id of the child entity
+   * @param parent - Id of the parent entity, or undefined to detach the entity from its parent
    *
-   * @see createNamedEntity - Not all entities have a name, they must have one specified by
+   * @throws {Error} - If either entity doesn't exist, or the parent is the entity itself or one of its descendants
    */
-  removeNamed(name: string): boolean {
-    const id = this.entityNameMapping[name];
-    if (id === undefined) {
-      return false;
-    } else {
-      return this.remove(id);
+  setParent(id: EntityId, parent: EntityId | undefined): void | never {
+    this.checkEntity(id);
+    if (parent === undefined) {
+      this.removeComponent(id, Parent);
+      return;
+    }
+    this.checkEntity(parent);
+    if (parent === id || this.ancestors(parent).indexOf(id) !== -1) {
+      throw Error(
+        `Setting the parent of entity: ${id} to: ${parent} would create a cycle!`
+      );
     }
+    this.setComponent(id, new Parent({ id: parent }));
   }
 
-  /** Set up the given Component type to be indexed for retrieval by component value
-   *
-   * The component type specified must have its hash() function implemented to return a unique value for each possible
-   * component value e.g. if your type is a 2D coord then the hash function could return '{x, y}' and satisfy this
-   * requirement.
-   *
-   * The utility of this is that once a component is set up for indexing you can use the supporting methods in this
-   * class to retrieve all entities that have a specific component value amongst other things.
+  /** Get the id of an entity's parent
    *
-   * @param componentType - Component type to set up for indexing
+   * @returns - The id of the parent, or undefined if the entity doesn't have one
    *
-   * @returns - The Total number of components indexed and the total number of unique components
+   * @throws {Error} - If the entity doesn't exist
    */
-  indexBy(componentType: ComponentConstructor): ComponentIndexingInfo {
-    const valueIndex = new HashTable<Hashable>();
-
-    let count = 0;
-    let typeEntities = this.componentEntities.get(componentType);
-    if (typeEntities) {
-      for (const id of typeEntities) {
-        const component = this.entities[id].component(componentType).clone();
-        valueIndex.add(component, id);
-        ++count;
-      }
-    }
-    this.componentValueEntities.set(componentType, valueIndex);
-    return {
-      uniqueComponentValues: valueIndex.countKeys(),
-      totalComponents: count,
-    };
+  getParent(id: EntityId): EntityId | undefined {
+    this.checkEntity(id);
+    const parent = this.storage.get(id, Parent) as Parent | undefined;
+    return parent ? parent.id : undefined;
   }
 
-  /** Checks whether an entity has a given component value
+  /** Get the ids of an entity's direct children
    *
-   * @throws {Error} - If the type of the component provided hasn't been set up for indexing
-   * @returns {boolean} - True if the entity has a component with the provided value, false otherwise
+   * @throws {Error} - If the entity doesn't exist
    */
-  hasIndex<T extends Component>(entityId: EntityId, component: T): boolean {
-    const typeEntities = this.indexedEntitiesForType(component);
-    return typeEntities.hasValue(component, entityId);
+  children(id: EntityId): EntityId[] {
+    this.checkEntity(id);
+    return this.childIds(id);
   }
 
-  /** Gives the number of entities that have a component that matches the provided component value
+  /** Get the ids of an entity's parent, its parent's parent and so on
    *
-   * @param component - The component value to look for
+   * @returns - The ids of the ancestors, nearest first
    *
-   * @return - The number of entities that have a component matching the one specified
+   * @throws {Error} - If the entity doesn't exist
    */
-  countIndex<T extends Component>(component: T): number {
-    return this.matchingIndex(component).length;
+  ancestors(id: EntityId): EntityId[] {
+    this.checkEntity(id);
+    const ancestors: EntityId[] = [];
+    let parent = this.storage.get(id, Parent) as Parent | undefined;
+    while (parent && ancestors.indexOf(parent.id) === -1) {
+      ancestors.push(parent.id);
+      parent = this.storage.has(parent.id)
+        ? (this.storage.get(parent.id, Parent) as Parent | undefined)
+        : undefined;
+    }
+    return ancestors;
   }
 
-  /** Gives all entities that have a component that matches the provided component value
+  /** Get the ids of an entity's children, their children and so on
    *
-   * @param component - The component value to look for
+   * @returns - The ids of the descendants, each entity before its own children
    *
-   * @return - An array of the entities that have the provided component value
+   * @throws {Error} - If the entity doesn't exist
    */
-  matchingIndex<T extends Component>(component: T): Entity[] {
-    const typeEntities = this.indexedEntitiesForType(component);
-    return typeEntities.get(component).map((id: EntityId) => this.entities[id]);
+  descendants(id: EntityId): EntityId[] {
+    this.checkEntity(id);
+    const descendants: EntityId[] = [];
+    const visit = (parent: EntityId) => {
+      for (const child of this.childIds(parent)) {
+        if (child !== id && descendants.indexOf(child) === -1) {
+          descendants.push(child);
+          visit(child);
+        }
+      }
+    };
+    visit(id);
+    return descendants;
   }
 
-  /** Checks whether an entity with the provided ID exists
+  /** Add a (relation type, target) pair to an entity
    *
-   * @returns - true if an entity with the ID exists, false otherwise
+   * @param id - Id of the entity that the relation is from
+   * @param type - The type of relation
+   * @param target - Id of the entity that the relation is to
+   *
+   * @throws {Error} - If either entity doesn't exist
    */
-  exists(id: number): boolean {
-    return id in this.entities;
+  relate(
+    id: EntityId,
+    type: RelationConstructor,
+    target: EntityId
+  ): void | never {
+    this.checkEntity(id);
+    this.checkEntity(target);
+    const targets = this.targets(id, type);
+    if (targets.indexOf(target) === -1) {
+      this.setComponent(id, new type({ targets: [...targets, target] }));
+    }
   }
 
-  /** Gets all entities that have a set of component types
+  /** Remove a (relation type, target) pair from an entity, removing the relation component once it has no targets
    *
-   * @param types - Component types that must exist on returned entities
+   * @returns - True if the entity had the pair, false otherwise
    *
-   * @returns - All entities that have instances of the component types passed in
+   * @throws {Error} - If the entity doesn't exist
    */
-  matching(...types: ComponentConstructor[]): Entity[] {
-    return this.matchingIds(...types).map((id: EntityId) => this.entities[id]);
+  unrelate(
+    id: EntityId,
+    type: RelationConstructor,
+    target: EntityId
+  ): boolean | never {
+    const targets = this.targets(id, type);
+    if (targets.indexOf(target) === -1) {
+      return false;
+    }
+    const remaining = targets.filter((t) => t !== target);
+    if (remaining.length === 0) {
+      this.removeComponent(id, type);
+    } else {
+      this.setComponent(id, new type({ targets: remaining }));
+    }
+    return true;
   }
 
-  /** Iterate and execute the callback on all entities that have a specified set of components
-   *
-   * @param callback - Callback executed for each matching entity, receives the entity and each matching component
-   * @param types - Component types that determine that the callback is executed if an entity has instances of them
+  /** Get the targets of an entity's relations of a given type
    *
-   * @note - Order of component types in 'types' and 'callback' parameters must match. Type errors will guide correctness.
+   * @throws {Error} - If the entity doesn't exist
    */
-  each<T extends Component[]>(
-    callback: (e: Entity, ...component: T) => void,
-    ...types: CtorsOf<T>
-  ): void {
-    this.matchingIds(...types).forEach((id: EntityId) => {
-      let entity = this.entities[id];
-      let instances = types.map((t) => entity.component(t)) as T;
-      callback(entity, ...instances);
-    });
+  targets(id: EntityId, type: RelationConstructor): EntityId[] {
+    this.checkEntity(id);
+    const relation = this.storage.get(id, type) as Relation | undefined;
+    return relation ? relation.targets.slice() : [];
   }
 
-  /** Gets the IDs of all entities that have a set of components
-   *
-   * @param types - Component types that if an Entity has instances of will have its ID in the output.
+  /** Get the ids of the entities that have a relation of a given type to a target
    *
-   * @returns - IDs of all entities that have instances of the component types provided
+   * @param type - The type of relation
+   * @param target - Id of the entity that the relations are to
    */
+  sources(type: RelationConstructor, target: EntityId): EntityId[] {
+    const targetSources = this.relationSources.get(type);
+    const sources = targetSources && targetSources.get(target);
+    return sources ? Array.from(sources) : [];
+  }
 
-  matchingIds(...types: ComponentConstructor[]): number[] {
-    const working: Set<number>[] = types
-      .filter((type: ComponentConstructor) => this.componentEntities.has(type))
-      .map((type: ComponentConstructor) => this.componentEntities.get(type)!);
-    if (working.length !== 0 && working.length === types.length) {
-      return Array.from(
-        working.reduce((accum: Set<number>, curr: Set<number>) =>
-          setIntersect(accum, curr)
-        )
-      );
-    } else {
-      return [];
+  /** Copy entities to another entity manager as a single change, with new ids and references updated to match */
+  private copyTo(
+    target: EntityManager,
+    ids: EntityId[]
+  ): Map<EntityId, EntityId> | never {
+    if (target === this) {
+      throw Error(`Can't copy entities to the entity manager they're in!`);
+    }
+    const copied = new Set(ids);
+    const names = Object.entries(this.entityNameMapping).filter(
+      ([, id]) => copied.has(id) && this.exists(id)
+    );
+    for (const [name] of names) {
+      const existing = target.entityNameMapping[name];
+      if (existing !== undefined && target.exists(existing)) {
+        throw Error(`Entity with name: ${name} already exists in the target!`);
+      }
+    }
+
+    const types = new Set<ComponentConstructor>();
+    for (const id of ids) {
+      for (const { component } of this.storage.entity(id).allComponents()) {
+        types.add(typeOf(component));
+      }
+    }
+
+    const mapping = new Map<EntityId, EntityId>();
+    target.transaction((tx) => {
+      for (const id of ids) {
+        mapping.set(id, tx.create());
+      }
+      const remap = (id: EntityId) => mapping.get(id);
+      for (const id of ids) {
+        for (const { component } of this.storage.entity(id).allComponents()) {
+          const remapped = component.remapEntities(
+            remap,
+            this.registry.schema(typeOf(component))
+          );
+          if (remapped) {
+            tx.setComponent(mapping.get(id)!, remapped);
+          }
+        }
+      }
+      for (const [name, id] of names) {
+        tx.setName(mapping.get(id)!, name);
+      }
+    });
+
+    // Only the indexes that the copied entities can be found by are set up in the target
+    for (const [type, { unique }] of this.valueIndexes) {
+      if (types.has(type) && !target.valueIndexes.has(type)) {
+        target.indexBy(type, { unique });
+      }
+    }
+    for (const [name, index] of this.namedIndexes) {
+      if (
+        index.types.every((type) => types.has(type)) &&
+        !target.namedIndexes.has(name)
+      ) {
+        target.addNamedIndex(name, index.types, index.key);
+      }
+    }
+    for (const [type, { key }] of this.rangeIndexes) {
+      if (types.has(type) && !target.rangeIndexes.has(type)) {
+        target.indexRange(type, key);
+      }
+    }
+    for (const [type, { position, index }] of this.spatialIndexes) {
+      if (types.has(type) && !target.spatialIndexes.has(type)) {
+        target.indexSpatial(type, { position, cellSize: index.cellSize });
+      }
+    }
+    for (const [id, unknown] of this.unknownComponents) {
+      if (mapping.has(id)) {
+        target.unknownComponents.set(
+          mapping.get(id)!,
+          JSON.parse(JSON.stringify(unknown))
+        );
+      }
     }
+    return mapping;
   }
 
-  /** Add or replace a component on an entity by name or ID
-   *
-   * @param id - Either an entityID or an entity name
+  /** Remove an entity, along with its children if cascading
    *
-   * @throws {Error} - If an entity with the provided name or ID doesn't exist
+   * @param removing - The entities already being removed, so that removal ends where parents form a cycle
    */
-  setComponent<T extends Component>(
-    id: EntityId | string,
-    component: T
-  ): void | never {
-    component = component.clone() as T;
-    const entityId = typeof id === 'string' ? this.entityNameMapping[id] : id;
-    this.checkEntity(entityId);
-    let componentType = Object.getPrototypeOf(component).constructor;
-    if (this.entities[entityId].has(componentType)) {
-      this.removeComponent(entityId, componentType, false);
-    }
-    const otherComponents = this.excludeComponents(entityId, [componentType]);
-    this.entities[entityId] = new Entity(
-      entityId,
-      ...otherComponents,
-      component.clone() as T
-    );
-    this.housekeepAddComponent(entityId, component);
+  private removeWithChildren(
+    id: EntityId,
+    policy: RemovalPolicy,
+    removing: Set<EntityId>
+  ): void {
+    removing.add(id);
+    const children = this.childIds(id).filter((child) => !removing.has(child));
+    const inbound = this.inboundRelations(id);
+    if (children.length === 0 && inbound.length === 0) {
+      this.removeEntity(id);
+      return;
+    }
+    this.atomically(() => {
+      for (const child of children) {
+        if (!this.exists(child)) {
+          continue;
+        }
+        if (policy === 'cascade') {
+          this.removeWithChildren(child, policy, removing);
+        } else {
+          this.removeComponent(child, Parent);
+        }
+      }
+      for (const [type, source] of inbound) {
+        if (this.exists(source)) {
+          this.unrelate(source, type, id);
+        }
+      }
+      this.removeEntity(id);
+    });
   }
 
-  /** Checks whether a component of the specified type exists on the specified entity
-   *
-   * @returns - True if the entity has the component, false otherwise
-   *
-   * @throws - If an entity with the ID doesn't exist
-   */
-  hasComponent(
-    id: EntityId | string,
-    type: ComponentConstructor
-  ): boolean | never {
-    const entityId = typeof id === 'string' ? this.entityNameMapping[id] : id;
-    this.checkEntity(entityId);
+  private removeEntity(id: EntityId): void {
+    let components = this.storage.entity(id).allComponents();
+
+    this.storage.destroy(id);
+    this.unknownComponents.delete(id);
+    if (this.recycleIds) {
+      this.freeIndex(entityIndex(id));
+    }
+    for (const idIndex of this.componentEntities.values()) {
+      idIndex.delete(id);
+    }
 
-    return this.entities[entityId].has(type);
+    for (const componentEntry of components) {
+      this.housekeepRemoveComponent(id, componentEntry.component, true);
+    }
+    this.refreshViews(id);
+    this.record({
+      type: 'remove',
+      id,
+      components: components.map((entry) => entry.component),
+    });
   }
 
-  /** Removes any component instance present on an entity based on the provided component type
+  /** Move an entity, along with its descendants, to another entity manager
    *
-   * @note doesn't send a notification if there was not component on the entity to remove
+   * The entities are given new ids in the other entity manager, and references between them are updated to match.
+   * Their names are moved with them, and the indexes for their component types are set up in the other entity manager.
+   * References to entities that aren't moved are dropped.
    *
-   * @param id - Either an entityID or an entity name
+   * @param target - The entity manager to move the entity to
+   * @param id - Id of the entity to move
    *
-   * @returns {boolean} - If a component existed on the entity and was removed, false otherwise.
+   * @returns - The id of the entity in the other entity manager
    *
-   * @throws {Error} - If an entity with the provided name or ID doesn't exist
+   * @throws {Error} - If the entity doesn't exist, or one of the names being moved is in use in the other entity manager
+   *
+   * @see Component.remapEntities - Updates the references held in a component
    */
-  removeComponent(
-    id: EntityId | string,
-    type: ComponentConstructor,
-    notify: boolean = true
-  ): boolean | never {
-    const entityId = typeof id === 'string' ? this.entityNameMapping[id] : id;
-    this.checkEntity(entityId);
-    if (this.entities[entityId].has(type)) {
-      const toRemove = this.entities[entityId].component(type);
-      this.entities[entityId] = new Entity(
-        entityId,
-        ...this.excludeComponents(entityId, [type])
+  transferTo(target: EntityManager, id: EntityId): EntityId | never {
+    this.checkEntity(id);
+    const ids = [id, ...this.descendants(id)];
+    const mapping = this.copyTo(target, ids);
+    const moved = new Set(ids);
+    this.atomically(() => {
+      for (const [name, named] of Object.entries(this.entityNameMapping)) {
+        if (moved.has(named)) {
+          this.unassignName(name);
+        }
+      }
+      for (const removed of ids.reverse()) {
+        this.remove(removed, 'orphan');
+      }
+    });
+    return mapping.get(id)!;
+  }
+
+  /** Copy all entities from another entity manager into this one
+   *
+   * The entities are given new ids, and references between them are updated to match. Their names and the indexes for
+   * their component types are copied with them.
+   *
+   * @param source - The entity manager to copy entities from, which is left unchanged
+   *
+   * @returns - The new id of each entity, by its id in the source entity manager
+   *
+   * @throws {Error} - If one of the names in the source entity manager is in use in this one
+   *
+   * @see Component.remapEntities - Updates the references held in a component
+   */
+  merge(source: EntityManager): Map<EntityId, EntityId> | never {
+    return source.copyTo(this, source.ids());
+  }
+
+  /** Remove an existing entity by its name
+   *
+   * @param name - Name of the entity to remove
+   *
+   * @see createNamedEntity - Not all entities have a name, they must have one specified by
+   */
+  removeNamed(name: string): boolean {
+    const id = this.entityNameMapping[name];
+    if (id === undefined) {
+      return false;
+    } else {
+      return this.remove(id);
+    }
+  }
+
+  /** Register a component type, so that it can be looked up by name, and imported without being passed to import()
+   *
+   * Component types are otherwise known by the name of their constructor once they've been used, which changes when
+   * the code is minified.
+   *
+   * @param componentType - The component type to register
+   * @param options - The name to register it under, a schema to use for it and whether to index it by value
+   *
+   * @throws {Error} - If the type has already been registered, or another type has been registered under the name
+   */
+  registerComponent(
+    componentType: ComponentConstructor,
+    options: ComponentRegistration = {}
+  ): void | never {
+    const { indexed } = this.registry.register(componentType, options);
+    if (indexed && !this.valueIndexes.has(componentType)) {
+      this.indexBy(componentType);
+    }
+  }
+
+  /** Get the component types that have been registered, or used, along with the names they are known by */
+  registeredComponents(): RegisteredComponent[] {
+    return this.registry.entries();
+  }
+
+  /** Get the component type known by a name, if any */
+  componentType(name: string): ComponentConstructor | undefined {
+    return this.registry.type(name);
+  }
+
+  /** Get the name that a component type is known by, which is used for it in exported data */
+  componentName(componentType: ComponentConstructor): string {
+    return this.registry.name(componentType);
+  }
+
+  /** Set up the given Component type to be indexed for retrieval by component value
+   *
+   * Components are indexed by their hash(), which by default describes all of their fields. A component type can
+   * override hash() with something quicker to compute e.g. a 2D coord could return '{x, y}', as long as it gives a
+   * unique value for each possible component value.
+   *
+   * The utility of this is that once a component is set up for indexing you can use the supporting methods in this
+   * class to retrieve all entities that have a specific component value amongst other things.
+   *
+   * A unique index stops a component value being added to more than one entity, and is kept when the entity manager
+   * is cleared or imported into.
+   *
+   * @param componentType - Component type to set up for indexing
+   * @param options - Whether the index is unique
+   *
+   * @returns - The Total number of components indexed and the total number of unique components
+   *
+   * @throws {Error} - If the index is unique and more than one entity already has the same component value
+   */
+  indexBy(
+    componentType: ComponentConstructor,
+    options: IndexByOptions = {}
+  ): ComponentIndexingInfo | never {
+    const unique = options.unique || false;
+    let valueIndex: ValueIndex;
+    try {
+      valueIndex = this.buildIndex([componentType], hashKey, unique);
+    } catch (e) {
+      throw Error(
+        `Component type: ${componentType.name} can't be indexed by value, ${e.message}`
       );
-      this.housekeepRemoveComponent(entityId, toRemove, notify);
-      return true;
+    }
+    this.valueIndexes.set(componentType, valueIndex);
+    if (unique) {
+      this.uniqueTypes.add(componentType);
     } else {
+      this.uniqueTypes.delete(componentType);
+    }
+    this.publish({
+      kind: 'indexCreated',
+      index: { type: 'value', componentType, unique },
+    });
+    return {
+      uniqueComponentValues: valueIndex.countKeys(),
+      totalComponents: valueIndex.countEntities(),
+    };
+  }
+
+  /** Set up a named index of entities by a key taken from one of their components, or from several for a composite
+   * index
+   *
+   * An entity is only indexed while it has a component of each of the types. Unlike indexBy(), named indexes are kept
+   * when the entity manager is cleared or imported into.
+   *
+   * @param name - Name to look the index up by
+   * @param componentTypes - The component type, or types, that the key is taken from
+   * @param key - Gives the key from the entity's component of each type, in the order the types are given. The key
+   *              can be a string, number or boolean, or an array of them, or undefined to leave the entity out.
+   *
+   * @throws {Error} - If an index with the name already exists, or an entity's key isn't valid
+   *
+   * @example
+   * em.createIndex('byFaction', Allegiance, (allegiance) => allegiance.faction);
+   * em.createIndex('byFactionAndRank', [Allegiance, Rank], (allegiance, rank) => [allegiance.faction, rank.level]);
+   *
+   * @see findByIndex - Finds the entities with a key
+   */
+  createIndex<T extends ComponentConstructor>(
+    name: string,
+    componentType: T,
+    key: (component: InstanceType<T>) => IndexKey | undefined
+  ): void | never;
+  createIndex<T extends [ComponentConstructor, ...ComponentConstructor[]]>(
+    name: string,
+    componentTypes: T,
+    key: (
+      ...components: {
+        [K in keyof T]: T[K] extends ComponentConstructor
+          ? InstanceType<T[K]>
+          : never;
+      }
+    ) => IndexKey | undefined
+  ): void | never;
+  createIndex(
+    name: string,
+    componentTypes: ComponentConstructor | ComponentConstructor[],
+    key: IndexKeyExtractor
+  ): void | never {
+    if (this.namedIndexes.has(name)) {
+      throw Error(`Index with name: ${name} already exists!`);
+    }
+    this.addNamedIndex(
+      name,
+      ([] as ComponentConstructor[]).concat(componentTypes),
+      key
+    );
+  }
+
+  /** Remove a named index
+   *
+   * @returns - True if the index existed, false otherwise
+   */
+  dropIndex(name: string): boolean {
+    if (!this.namedIndexes.delete(name)) {
       return false;
     }
+    this.publish({ kind: 'indexDropped', name });
+    return true;
   }
 
-  /** Subscribe to be notified when an Entity is modified
+  /** Get the names of the indexes set up by createIndex() */
+  indexNames(): string[] {
+    return Array.from(this.namedIndexes.keys());
+  }
+
+  /** Get the entities with a key in a named index
    *
-   * @param id: Id of the entity to monitor.
-   * @param callback: Receives the new version of the entity or null if the entity was deleted.
+   * @param name - Name of the index
+   * @param key - The key to look for, in the form returned by the index's key function
+   *
+   * @throws {Error} - If the index doesn't exist
    */
-  observeEntity$(id: EntityId): Observable<Entity | null> {
-    this.checkEntity(id);
-    if (!this.entityRegistrations.has(id)) {
-      this.entityRegistrations.set(id, new Subject<Entity | null>());
+  findByIndex(name: string, key: IndexKey): Entity[] | never {
+    return this.namedIndex(name)
+      .get(key)
+      .map((id) => this.storage.entity(id));
+  }
+
+  /** Get the number of entities with a key in a named index
+   *
+   * @throws {Error} - If the index doesn't exist
+   */
+  countByIndex(name: string, key: IndexKey): number | never {
+    return this.namedIndex(name).count(key);
+  }
+
+  /** Set up a component type to be indexed by a numeric key, so that entities with keys in a range can be found
+   *
+   * Unlike indexBy(), range indexes are kept when the entity manager is cleared or imported into. Setting one up again
+   * for a type replaces the previous one.
+   *
+   * @param componentType - Component type to set up for indexing
+   * @param key - Gives the key of a component e.g. its current health, which must be a number
+   *
+   * @throws {Error} - If a component of the type has a key that isn't a number, in which case the type isn't indexed
+   *
+   * @see inRange - Finds the entities with keys in a range
+   */
+  indexRange<T extends ComponentConstructor>(
+    componentType: T,
+    key: (component: InstanceType<T>) => number
+  ): void | never {
+    const index = new RangeIndex();
+    for (const id of this.componentEntities.get(componentType) || []) {
+      const component = this.storage.get(id, componentType) as InstanceType<T>;
+      this.checkRangeKey(id, component, key);
+      index.add(key(component), id);
     }
-    return this.entityRegistrations.get(id)!;
+    this.rangeIndexes.set(componentType, { key, index });
+    this.publish({
+      kind: 'indexCreated',
+      index: { type: 'range', componentType, key },
+    });
   }
 
-  /** Subscribe to be notified when a component on a specific entity is updated
+  /** Get the entities with a component whose key is in a range, in order of key
    *
-   * @param id  - Id of the entity
-   * @param type - The component to type to get notifications of
+   * @param componentType - Component type set up for indexing with indexRange()
+   * @param bounds - The range of keys e.g. { lt: 10 } for keys below 10
+   *
+   * @throws {Error} - If the component type hasn't been set up for range indexing
    */
-  observeEntityComponent$<T_Constructor extends ComponentConstructor>(
-    id: EntityId,
-    type: T_Constructor
-  ): Observable<ComponentChange<InstanceType<T_Constructor>>> {
-    this.checkEntity(id);
-    return this.observeComponentType$(type).pipe(
-      filter((change) => change.id === id)
+  inRange(
+    componentType: ComponentConstructor,
+    bounds: RangeBounds
+  ): Entity[] | never {
+    const range = this.rangeIndexes.get(componentType);
+    if (!range) {
+      throw Error(
+        `Component type: ${componentType.name} is not set up for range indexing!`
+      );
+    }
+    return range.index.get(bounds).map((id) => this.storage.entity(id));
+  }
+
+  /** Set up a component type to be indexed by position, so that entities in an area can be found
+   *
+   * Unlike indexBy(), spatial indexes are kept when the entity manager is cleared or imported into. Setting one up
+   * again for a type replaces the previous one.
+   *
+   * @param componentType - Component type to set up for indexing
+   * @param options - Size of the cells the index is divided into, and how to get the position of a component, which
+   *                  defaults to the x and y fields of the component itself
+   *
+   * @throws {Error} - If a component of the type has a position that isn't a pair of numbers, in which case the type
+   *                   isn't indexed
+   *
+   * @see withinRect - Finds the entities in a rectangle
+   * @see withinRadius - Finds the entities within a distance of a point
+   */
+  indexSpatial<T extends ComponentConstructor>(
+    componentType: T,
+    options: SpatialIndexOptions<InstanceType<T>> = {}
+  ): void | never {
+    const position =
+      options.position || ((component: InstanceType<T>) => component as Point);
+    const index = new SpatialIndex(options.cellSize || 16);
+    for (const id of this.componentEntities.get(componentType) || []) {
+      const component = this.storage.get(id, componentType) as InstanceType<T>;
+      this.checkPosition(id, component, position);
+      index.add(position(component), id);
+    }
+    this.spatialIndexes.set(componentType, { position, index });
+    this.publish({
+      kind: 'indexCreated',
+      index: {
+        type: 'spatial',
+        componentType,
+        cellSize: index.cellSize,
+        position,
+      },
+    });
+  }
+
+  /** Get the entities with a component positioned within a rectangle, including its edges
+   *
+   * @param componentType - Component type set up for indexing with indexSpatial()
+   * @param min - The corner of the rectangle with the lowest x and y
+   * @param max - The corner of the rectangle with the highest x and y
+   *
+   * @throws {Error} - If the component type hasn't been set up for spatial indexing
+   */
+  withinRect(
+    componentType: ComponentConstructor,
+    min: Point,
+    max: Point
+  ): Entity[] | never {
+    return this.spatialIndex(componentType)
+      .withinRect(min, max)
+      .map((id) => this.storage.entity(id));
+  }
+
+  /** Get the entities with a component positioned within a distance of a point, including those at that distance
+   *
+   * @param componentType - Component type set up for indexing with indexSpatial()
+   * @param centre - The point to measure from
+   * @param radius - The distance from the point
+   *
+   * @throws {Error} - If the component type hasn't been set up for spatial indexing
+   */
+  withinRadius(
+    componentType: ComponentConstructor,
+    centre: Point,
+    radius: number
+  ): Entity[] | never {
+    return this.spatialIndex(componentType)
+      .withinRadius(centre, radius)
+      .map((id) => this.storage.entity(id));
+  }
+
+  /** Checks whether an entity has a given component value
+   *
+   * @throws {Error} - If the type of the component provided hasn't been set up for indexing
+   * @returns {boolean} - True if the entity has a component with the provided value, false otherwise
+   */
+  hasIndex<T extends Component>(entityId: EntityId, component: T): boolean {
+    return this.valueIndex(component).has(entityId, component.hash());
+  }
+
+  /** Gives the number of entities that have a component that matches the provided component value
+   *
+   * @param component - The component value to look for
+   *
+   * @return - The number of entities that have a component matching the one specified
+   */
+  countIndex<T extends Component>(component: T): number {
+    return this.matchingIndex(component).length;
+  }
+
+  /** Gives all entities that have a component that matches the provided component value
+   *
+   * @param component - The component value to look for
+   *
+   * @return - An array of the entities that have the provided component value
+   */
+  matchingIndex<T extends Component>(component: T): Entity[] {
+    return this.valueIndex(component)
+      .get(component.hash())
+      .map((id: EntityId) => this.storage.entity(id));
+  }
+
+  /** Gives the entity that has a component value, in a unique index
+   *
+   * @param component - The component value to look for
+   *
+   * @returns - The entity with the provided component value, or undefined if there's none
+   *
+   * @throws {Error} - If the type of the component provided hasn't been set up for unique indexing
+   */
+  findUnique<T extends Component>(component: T): Entity | undefined | never {
+    const index = this.valueIndex(component);
+    if (!index.unique) {
+      throw Error(
+        `Component type: ${
+          typeOf(component).name
+        } is not set up for unique indexing!`
+      );
+    }
+    const [id] = index.get(component.hash());
+    return id === undefined ? undefined : this.storage.entity(id);
+  }
+
+  /** Checks whether an entity with the provided ID exists
+   *
+   * @returns - true if an entity with the ID exists, false otherwise
+   */
+  exists(id: number): boolean {
+    return this.storage.has(id);
+  }
+
+  /** Gets the IDs of all entities currently being managed
+   */
+  ids(): EntityId[] {
+    return this.storage.ids();
+  }
+
+  /** Gets all entities that have a set of component types
+   *
+   * @param types - Component types that must exist on returned entities
+   *
+   * @returns - All entities that have instances of the component types passed in
+   */
+  matching(...types: ComponentConstructor[]): Entity[] {
+    return this.matchingIds(...types).map((id: EntityId) =>
+      this.storage.entity(id)
     );
   }
 
-  /** Subscribe by name to be notified when an Entity is modified
+  /** Iterate and execute the callback on all entities that have a specified set of components
    *
-   * @param name: Name of the entity to monitor.
-   * @param callback: Receives the new version of the entity or null if the entity was deleted.
+   * @param callback - Callback executed for each matching entity, receives the entity and each matching component
+   * @param types - Component types that determine that the callback is executed if an entity has instances of them
+   *
+   * @note - Order of component types in 'types' and 'callback' parameters must match. Type errors will guide correctness.
    */
-  observeNamedEntity$(name: string): Observable<Entity | null> {
-    const id = this.entityNameMapping[name];
-    if (id === undefined) {
-      throw new Error(
-        `Attempt to monitor entity with name: ${name}, which doesn't exist!`
+  each<T extends Component[]>(
+    callback: (e: Entity, ...component: T) => void,
+    ...types: CtorsOf<T>
+  ): void;
+  /** Iterate and execute the callback on all entities that satisfy a query
+   *
+   * @param callback - Callback executed for each matching entity, receives the entity, its required components and its
+   *                   optional components
+   * @param query - Query that determines which entities the callback is executed for
+   */
+  each<R extends Component[], O extends Component[]>(
+    callback: (e: Entity, required: R, optional: OptionalComponents<O>) => void,
+    query: Query<R, O>
+  ): void;
+  each<T extends Component[]>(
+    callback: (...args: any[]) => void,
+    ...types: CtorsOf<T> | any[]
+  ): void {
+    if (types[0] instanceof Query) {
+      return types[0].each(callback);
+    }
+    const componentTypes = types as ComponentConstructor[];
+    this.matchingIds(...componentTypes).forEach((id: EntityId) => {
+      let entity = this.storage.entity(id);
+      let instances = componentTypes.map((t) => entity.component(t));
+      callback(entity, ...instances);
+    });
+  }
+
+  /** Create a query for entities based on the component types they do and don't have
+   *
+   * @returns - An empty query, which matches every entity until refined
+   *
+   * @see Query - For building up the query
+   */
+  query(): Query {
+    return new Query(this);
+  }
+
+  /** Register a view that keeps the result of a query up to date as entities change
+   *
+   * Prefer a view over repeatedly running a query where the same query is iterated often e.g. every frame.
+   *
+   * @param query - The query to maintain the result for
+   *
+   * @returns - The view, which should be disposed of once no longer needed
+   */
+  view<R extends Component[], O extends Component[]>(
+    query: Query<R, O>
+  ): QueryView<R, O> {
+    const view = new QueryView<R, O>(this, query, (disposed) =>
+      this.views.delete(disposed)
+    );
+    this.views.add(view);
+    return view;
+  }
+
+  /** Gets the IDs of all entities that have a set of components
+   *
+   * @param types - Component types that if an Entity has instances of will have its ID in the output.
+   *
+   * @returns - IDs of all entities that have instances of the component types provided
+   */
+
+  matchingIds(...types: ComponentConstructor[]): number[] {
+    const working: Set<number>[] = types
+      .filter((type: ComponentConstructor) => this.componentEntities.has(type))
+      .map((type: ComponentConstructor) => this.componentEntities.get(type)!);
+    if (working.length !== 0 && working.length === types.length) {
+      return Array.from(
+        working.reduce((accum: Set<number>, curr: Set<number>) =>
+          setIntersect(accum, curr)
+        )
+      );
+    } else {
+      return [];
+    }
+  }
+
+  /** Add or replace a component on an entity by name or ID
+   *
+   * @param id - Either an entityID or an entity name
+   *
+   * @throws {Error} - If an entity with the provided name or ID doesn't exist, or the component doesn't match its
+   *                   type's schema
+   */
+  setComponent<T extends Component>(
+    id: EntityId | string,
+    component: T
+  ): void | never {
+    component = component.clone() as T;
+    const entityId = typeof id === 'string' ? this.entityNameMapping[id] : id;
+    this.checkEntity(entityId);
+    this.validateComponent(entityId, component, (type) =>
+      this.storage.get(entityId, type)
+    );
+    let componentType = Object.getPrototypeOf(component).constructor;
+    const previous = this.storage.get(entityId, componentType);
+    this.storage.set(entityId, component);
+    if (previous) {
+      this.housekeepRemoveComponent(entityId, previous, false);
+    }
+    this.housekeepAddComponent(entityId, component, previous);
+    this.record({ type: 'setComponent', id: entityId, component, previous });
+  }
+
+  /** Make a set of changes that are applied together, or not at all
+   *
+   * Changes are recorded against the transaction passed to the callback, and applied once it returns. Notifications
+   * for the changes are held back until all have been applied, and then sent once per entity and component.
+   *
+   * @param callback - Records the changes to make on the transaction provided
+   *
+   * @returns - Whatever the callback returns
+   *
+   * @throws {Error} - If the callback throws, or a change can't be applied. No changes are made in either case.
+   */
+  transaction<T>(callback: (tx: Transaction) => T): T {
+    const tx = new Transaction(() => this.nextId());
+    let result: T;
+    try {
+      result = callback(tx);
+    } catch (e) {
+      this.releaseIds(tx);
+      throw e;
+    }
+    this.commit(tx);
+    return result;
+  }
+
+  /** Create a buffer for changes that are to be applied at a later point, rather than immediately
+   *
+   * @see CommandBuffer
+   */
+  commandBuffer(): CommandBuffer {
+    return new CommandBuffer(this, () => this.nextId());
+  }
+
+  /** Apply the changes recorded on a transaction together, or not at all
+   *
+   * Values that should be unique are checked against the state once all the changes have been applied, so e.g. two
+   * entities can swap them.
+   *
+   * @throws {Error} - If a change can't be applied, in which case any changes already applied are rolled back
+   */
+  commit(tx: Transaction): void {
+    const uniqueChecks = this.uniqueChecks;
+    this.uniqueChecks = new Set<EntityId>();
+    try {
+      this.atomically(() => {
+        for (const operation of tx.operations) {
+          this.applyOperation(operation);
+        }
+        this.checkUniqueKeys();
+      });
+    } catch (e) {
+      this.releaseIds(tx);
+      throw e;
+    } finally {
+      this.uniqueChecks = uniqueChecks;
+    }
+  }
+
+  /** Start recording changes so that they can be undone and redone
+   *
+   * Changes made before the history is created, and the clearing or importing of state, can't be undone.
+   *
+   * @param options - Configuration for what is recorded
+   *
+   * @returns - The history, which should be disposed of once no longer needed
+   */
+  history(options: HistoryOptions = {}): History {
+    const history: History = new History(
+      options,
+      (mutations, undo) => this.replay(history, mutations, undo),
+      (disposed) => this.histories.delete(disposed)
+    );
+    this.histories.add(history);
+    return history;
+  }
+
+  /** Start keeping the most recent changes, so that they can be replayed into another entity manager
+   *
+   * @param options - How many changes to keep
+   *
+   * @returns - The journal, which should be disposed of once no longer needed
+   */
+  journal(options: JournalOptions = {}): ChangeJournal {
+    return new ChangeJournal(this.changes$(), options);
+  }
+
+  /** Apply changes emitted by another entity manager's changes$(), to mirror its state
+   *
+   * Changes to entities between the clearing of state and the creation or removal of indexes are applied atomically.
+   *
+   * @param changes - The changes to apply, oldest first
+   *
+   * @throws {Error} - If a change can't be applied, in which case the changes applied since the last clearing of state
+   *                   or index creation or removal are rolled back
+   */
+  applyChanges(changes: WorldChange[]): void | never {
+    let pending: WorldChange[] = [];
+    const flush = () => {
+      const run = pending;
+      pending = [];
+      if (run.length !== 0) {
+        this.atomically(() =>
+          run.forEach((change) => this.applyChange(change))
+        );
+      }
+    };
+    for (const change of changes) {
+      if (
+        change.kind === 'cleared' ||
+        change.kind === 'indexCreated' ||
+        change.kind === 'indexDropped'
+      ) {
+        flush();
+        this.applyChange(change);
+      } else {
+        pending.push(change);
+      }
+    }
+    flush();
+  }
+
+  /** Checks whether a component of the specified type exists on the specified entity
+   *
+   * @returns - True if the entity has the component, false otherwise
+   *
+   * @throws - If an entity with the ID doesn't exist
+   */
+  hasComponent(
+    id: EntityId | string,
+    type: ComponentConstructor
+  ): boolean | never {
+    const entityId = typeof id === 'string' ? this.entityNameMapping[id] : id;
+    this.checkEntity(entityId);
+
+    return this.storage.get(entityId, type) !== undefined;
+  }
+
+  /** Removes any component instance present on an entity based on the provided component type
+   *
+   * @note doesn't send a notification if there was not component on the entity to remove
+   *
+   * @param id - Either an entityID or an entity name
+   *
+   * @returns {boolean} - If a component existed on the entity and was removed, false otherwise.
+   *
+   * @throws {Error} - If an entity with the provided name or ID doesn't exist
+   */
+  removeComponent(
+    id: EntityId | string,
+    type: ComponentConstructor,
+    notify: boolean = true
+  ): boolean | never {
+    const entityId = typeof id === 'string' ? this.entityNameMapping[id] : id;
+    this.checkEntity(entityId);
+    const toRemove = this.storage.get(entityId, type);
+    if (toRemove) {
+      this.storage.remove(entityId, type);
+      this.housekeepRemoveComponent(entityId, toRemove, notify);
+      this.record({
+        type: 'removeComponent',
+        id: entityId,
+        previous: toRemove,
+      });
+      return true;
+    } else {
+      return false;
+    }
+  }
+
+  /** Subscribe to be notified when an Entity is modified
+   *
+   * @param id: Id of the entity to monitor.
+   * @param callback: Receives the new version of the entity or null if the entity was deleted.
+   */
+  observeEntity$(id: EntityId): Observable<Entity | null> {
+    this.checkEntity(id);
+    if (!this.entityRegistrations.has(id)) {
+      this.entityRegistrations.set(id, new Subject<Entity | null>());
+    }
+    return this.entityRegistrations.get(id)!;
+  }
+
+  /** Subscribe to be notified when a component on a specific entity is updated
+   *
+   * @param id  - Id of the entity
+   * @param type - The component to type to get notifications of
+   */
+  observeEntityComponent$<T_Constructor extends ComponentConstructor>(
+    id: EntityId,
+    type: T_Constructor
+  ): Observable<ComponentChange<InstanceType<T_Constructor>>> {
+    this.checkEntity(id);
+    return this.observeComponentType$(type).pipe(
+      filter((change) => change.id === id)
+    );
+  }
+
+  /** Subscribe by name to be notified when an Entity is modified
+   *
+   * @param name: Name of the entity to monitor.
+   * @param callback: Receives the new version of the entity or null if the entity was deleted.
+   */
+  observeNamedEntity$(name: string): Observable<Entity | null> {
+    const id = this.entityNameMapping[name];
+    if (id === undefined) {
+      throw new Error(
+        `Attempt to monitor entity with name: ${name}, which doesn't exist!`
+      );
+    } else {
+      return this.observeEntity$(id);
+    }
+  }
+
+  /** Subscribe to be notified when a type of component is modified
+   *
+   * @param type: Constructor function of the Component type that events are to be sent for.
+   * @param callback: receives Entity, EntityId and component on change, null values for entity component indicate deletion.
+   */
+  observeComponentType$<T_Constructor extends ComponentConstructor>(
+    type: T_Constructor
+  ): Observable<ComponentChange<InstanceType<T_Constructor>>> {
+    if (!this.componentRegistrations.has(type)) {
+      this.componentRegistrations.set(
+        type,
+        new Subject<ComponentChange<InstanceType<ComponentConstructor>>>()
+      );
+    }
+    return this.componentRegistrations.get(type)!;
+  }
+
+  /** Subscribe to the entities that have a set of components, as they start and stop having them and as the components
+   * change
+   *
+   * The query is kept up to date as a view while subscribed to, and the view is disposed of on unsubscribing.
+   *
+   * @param types - Component types that matching entities have instances of
+   *
+   * @returns - Emits the matching entities on subscribing, then an event for each change to them
+   *
+   * @see QueryEvent - The events emitted
+   */
+  query$<T extends Component[]>(...types: CtorsOf<T>): Observable<QueryEvent> {
+    return new Observable<QueryEvent>((subscriber) => {
+      const view = this.view(this.query().with(...types));
+      subscriber.next({ kind: 'current', entities: view.entities() });
+      const subscription = merge(
+        view.entered$.pipe(map((e): QueryEvent => ({ kind: 'added', e }))),
+        view.exited$.pipe(map((id): QueryEvent => ({ kind: 'removed', id }))),
+        view.changed$.pipe(map((e): QueryEvent => ({ kind: 'changed', e })))
+      ).subscribe(subscriber);
+      return () => {
+        subscription.unsubscribe();
+        view.dispose();
+      };
+    });
+  }
+
+  /** Subscribe to the entities that have a component value, as they start and stop having it
+   *
+   * @param component - The component value to look for
+   *
+   * @returns - Emits the entities with the value on subscribing, then an event for each change to them
+   *
+   * @throws {Error} - If the type of the component provided hasn't been set up for indexing
+   *
+   * @see QueryEvent - The events emitted, 'changed' is sent when an entity's component is replaced with an equal one
+   */
+  matchingIndex$<T extends Component>(
+    component: T
+  ): Observable<QueryEvent> | never {
+    this.valueIndex(component);
+    const type = typeOf(component);
+    const hash = component.hash();
+    const matches = (e: Entity) => {
+      const index = this.valueIndexes.get(type);
+      return index !== undefined && index.has(e.id, hash);
+    };
+    return new Observable<QueryEvent>((subscriber) => {
+      const members = new Set<EntityId>();
+      return this.query$(type).subscribe((event) => {
+        if (event.kind === 'current') {
+          const entities = event.entities.filter(matches);
+          entities.forEach((e) => members.add(e.id));
+          subscriber.next({ kind: 'current', entities });
+        } else if (event.kind === 'removed') {
+          if (members.delete(event.id)) {
+            subscriber.next(event);
+          }
+        } else if (matches(event.e)) {
+          subscriber.next(
+            members.has(event.e.id) ? event : { kind: 'added', e: event.e }
+          );
+          members.add(event.e.id);
+        } else if (members.delete(event.e.id)) {
+          subscriber.next({ kind: 'removed', id: event.e.id });
+        }
+      });
+    });
+  }
+
+  /** Subscribe to be notified of every change to the state of the entity manager
+   *
+   * Changes made together, such as by a transaction, are emitted once all have been made. Each event has a sequence
+   * number one greater than the event before it.
+   *
+   * @see WorldChange - The changes emitted
+   * @see journal - Keeps the changes for replaying into another entity manager
+   */
+  changes$(): Observable<ChangeEvent> {
+    return this.changes;
+  }
+
+  /** Clear all entities, but retain the entity ID count
+   */
+  clear(): void {
+    this.init(this.currId);
+  }
+
+  /** Get the total number of entities currently being managed
+   */
+  count(): number {
+    return this.storage.count();
+  }
+
+  /** Get the state of the ECS as a JSON data structure
+   *
+   * @throws {Error} - If the entity manager requires registration and a component type hasn't been registered
+   */
+  export() {
+    return this.exportEntities(this.storage.ids());
+  }
+
+  private exportEntities(ids: EntityId[]): ECSData {
+    const data: ECSData = {
+      version: this.version,
+      indexed: [],
+      entities: {},
+    };
+
+    for (const id of ids) {
+      data.entities[id] = data.entities[id] || {};
+      for (const { component } of this.storage.entity(id).allComponents()) {
+        const type = typeOf(component);
+        data.entities[id][this.exportName(type)] = componentToData(
+          component,
+          this.registry.schema(type)
+        );
+      }
+      if (this.unknownComponents.has(id)) {
+        Object.assign(data.entities[id], this.unknownComponents.get(id));
+      }
+    }
+
+    data.indexed = this.exportIndexed();
+
+    return data;
+  }
+
+  /** Get the names of the indexed component types, in order of name so that the order indexes were created in doesn't
+   * change the data
+   */
+  private exportIndexed(): string[] | never {
+    return Array.from(this.valueIndexes.keys())
+      .map((componentConstructor) => this.exportName(componentConstructor))
+      .concat(this.unknownIndexed)
+      .sort();
+  }
+
+  /** Get the name a component type is saved under
+   *
+   * @throws {Error} - If the entity manager requires registration and the type hasn't been registered
+   */
+  private exportName(type: ComponentConstructor): string | never {
+    if (this.requireRegistration && !this.registry.isRegistered(type)) {
+      throw Error(
+        `Component type: ${type.name} must be registered with registerComponent() to be exported!`
+      );
+    }
+    return this.registry.name(type);
+  }
+
+  /** Get the state of the ECS in a compact binary format, which holds the same data as export()
+   *
+   * Components are encoded directly, rather than being copied through JSON first, and the same state always gives the
+   * same bytes.
+   *
+   * @throws {Error} - If the entity manager requires registration and a component type hasn't been registered
+   *
+   * @see toBinary - Describes the format
+   */
+  exportBinary(): ArrayBuffer | never {
+    const data: BinaryInput = {
+      version: this.version,
+      indexed: this.exportIndexed(),
+      entities: {},
+    };
+    for (const id of this.storage.ids()) {
+      const components: { [componentName: string]: any } = {};
+      for (const { component } of this.storage.entity(id).allComponents()) {
+        const type = typeOf(component);
+        const schema = this.registry.schema(type);
+        components[this.exportName(type)] = schema
+          ? componentToData(component, schema)
+          : component;
+      }
+      data.entities[id] = Object.assign(
+        components,
+        this.unknownComponents.get(id)
+      );
+    }
+    return toBinary(data);
+  }
+
+  /** Get the changes made since a snapshot of the ECS was taken
+   *
+   * Applying the result to an entity manager in the state of the snapshot brings it to the current state, so a state
+   * can be stored as a snapshot followed by a series of patches.
+   *
+   * @param from - Snapshot to compare against, obtained by export()
+   *
+   * @returns - Only the entities and components that differ from the snapshot
+   */
+  diff(from: ECSData): ECSPatch {
+    const to = this.export();
+    const patch: ECSPatch = {
+      indexed: to.indexed,
+      created: {},
+      removed: [],
+      changed: {},
+      removedComponents: {},
+    };
+    for (const [entityId, components] of Object.entries(to.entities)) {
+      const previous = from.entities[entityId];
+      if (previous === undefined) {
+        patch.created[entityId] = components;
+        continue;
+      }
+      for (const [name, data] of Object.entries(components)) {
+        if (!(name in previous) || !jsonEqual(previous[name], data)) {
+          patch.changed[entityId] = patch.changed[entityId] || {};
+          patch.changed[entityId][name] = data;
+        }
+      }
+      const removed = Object.keys(previous).filter(
+        (name) => !(name in components)
+      );
+      if (removed.length !== 0) {
+        patch.removedComponents[entityId] = removed;
+      }
+    }
+    for (const entityId of Object.keys(from.entities)) {
+      if (!(entityId in to.entities)) {
+        patch.removed.push(Number(entityId));
+      }
+    }
+    return patch;
+  }
+
+  /** Apply the changes produced by diff()
+   *
+   * The changes are applied together, or not at all, with notifications sent once they have all been applied.
+   *
+   * @param patch - The changes to apply
+   * @param componentTypes - A dictionary of Constructor functions used to instantiate components by name, in addition
+   *                         to the registered component types
+   *
+   * @throws {Error} - If the patch doesn't apply to the current state e.g. it changes an entity that doesn't exist, or
+   *                   a component name is not in the type index. No changes are made in either case.
+   */
+  applyPatch(
+    patch: ECSPatch,
+    componentTypes: { [name: string]: new (...args: any[]) => any } = {}
+  ): void {
+    componentTypes = { ...this.registry.types(), ...componentTypes };
+    this.atomically(() => {
+      // The patch holds the changes to children and relation sources, so removing doesn't make them
+      for (const id of patch.removed) {
+        if (!this.exists(id)) {
+          throw Error(
+            `Patch removes entity with id: ${id}, which doesn't exist!`
+          );
+        }
+        this.removeEntity(id);
+      }
+      for (const [entityId, components] of Object.entries(patch.created)) {
+        const id = Number(entityId);
+        if (this.exists(id)) {
+          throw Error(
+            `Patch creates entity with id: ${id}, which already exists!`
+          );
+        }
+        this._createEntity(
+          id,
+          ...Object.entries(components).map(([name, data]) =>
+            this.createComponent(id, name, data, componentTypes)
+          )
+        );
+      }
+      for (const [entityId, names] of Object.entries(patch.removedComponents)) {
+        for (const name of names) {
+          const type = componentTypes[name];
+          if (!type) {
+            throw Error(`Component in patch: ${name} is not in type index!`);
+          }
+          if (!this.removeComponent(Number(entityId), type)) {
+            throw Error(
+              `Patch removes component: ${name} from entity with id: ${entityId}, which doesn't have it!`
+            );
+          }
+        }
+      }
+      for (const [entityId, components] of Object.entries(patch.changed)) {
+        for (const [name, data] of Object.entries(components)) {
+          const id = Number(entityId);
+          this.setComponent(
+            id,
+            this.createComponent(id, name, data, componentTypes)
+          );
+        }
+      }
+    });
+    for (const componentName of patch.indexed) {
+      const type = componentTypes[componentName];
+      if (type && !this.valueIndexes.has(type)) {
+        this.indexBy(type);
+      }
+    }
+  }
+
+  observeInitialisation$() {
+    return this.initialised;
+  }
+
+  /** Register a migration that rewrites a component's data from an old version of the data format during import
+   *
+   * @param version - The version that the migration converts from, to the version after it
+   * @param componentName - Name of the component in the old version
+   * @param migration - How to rename and/or convert the component's data
+   *
+   * @throws {Error} - If a migration is already registered for the component and version
+   */
+  registerMigration(
+    version: number,
+    componentName: string,
+    migration: ComponentMigration
+  ): void | never {
+    if (!this.migrations.has(version)) {
+      this.migrations.set(version, new Map<string, ComponentMigration>());
+    }
+    const forVersion = this.migrations.get(version)!;
+    if (forVersion.has(componentName)) {
+      throw Error(
+        `Migration for component: ${componentName} from version: ${version} already exists!`
+      );
+    }
+    forVersion.set(componentName, migration);
+  }
+
+  /** Load prefab definitions, for creating entities with instantiate()
+   *
+   * Prefabs are defined with the same component data as exported entities, and are migrated in the same way. They're
+   * kept when the entity manager is cleared or imported into.
+   *
+   * @param data - The prefab definitions by name, which can extend each other or previously loaded prefabs
+   * @param componentTypes - A dictionary of Constructor functions used to instantiate components by name, in addition
+   *                         to the registered component types
+   *
+   * @throws {Error} - If a prefab already exists or extends one that doesn't, prefabs extend each other in a cycle, or
+   *                   a component isn't in the type index. No prefabs are loaded in that case.
+   */
+  loadPrefabs(
+    data: PrefabData,
+    componentTypes: { [name: string]: new (...args: any[]) => any } = {}
+  ): void | never {
+    const components: EntityData = {};
+    for (const [name, definition] of Object.entries(data.prefabs)) {
+      components[name] = definition.components;
+    }
+    const migrated = migrate(
+      { version: data.version, indexed: [], entities: components },
+      this.version,
+      this.migrations
+    );
+    const prefabs: { [name: string]: PrefabDefinition } = {};
+    for (const [name, definition] of Object.entries(data.prefabs)) {
+      prefabs[name] = {
+        extends: definition.extends,
+        components: migrated.entities[name],
+      };
+    }
+    this.prefabs.load(prefabs, { ...this.registry.types(), ...componentTypes });
+  }
+
+  /** Checks whether a prefab with the given name has been loaded */
+  hasPrefab(name: string): boolean {
+    return this.prefabs.has(name);
+  }
+
+  /** Get the data for each of a prefab's components, including those it inherits
+   *
+   * @throws {Error} - If the prefab doesn't exist
+   */
+  getPrefab(name: string): JsonObject | never {
+    return this.prefabs.get(name);
+  }
+
+  /** Get the raw data of the components on an entity that were kept during import, because their type was unknown
+   *
+   * @returns - The data of each unknown component by name
+   */
+  getUnknownComponents(id: EntityId): JsonObject {
+    this.checkEntity(id);
+    return JSON.parse(JSON.stringify(this.unknownComponents.get(id) || {}));
+  }
+
+  /** Set the state of the ECS from the data provided
+   *
+   * Data from an older version of the format is migrated to the current version first.
+   *
+   * @param data JSON representation of the ECS state, usually obtained by the toData() method on an existing instance
+   * @param componentTypes A dictionary of Constructor functions used to instantiate components by name, in addition to
+   *                       the registered component types
+   * @param options How to handle components in the data that aren't in componentTypes
+   *
+   * @throws {Error} - If the data is from a newer version of the format, contains component data that doesn't match
+   *                   its type's schema, or contains a component that isn't in the type index, unless configured to
+   *                   drop or keep unknown components
+   *
+   * @note Doesn't make any consideration for event registrations, these have to be set up manually.
+   */
+  import(
+    data: ECSData,
+    componentTypes: { [name: string]: new (...args: any[]) => any } = {},
+    options: ImportOptions = {}
+  ): EntityId {
+    const staged = newStagedImport();
+    this.stageImport(staged, data, componentTypes, options);
+    return this.finishImport(staged);
+  }
+
+  /** Set the state of the ECS from data read in chunks, such as those produced by exportChunks()
+   *
+   * Each chunk is migrated and its components created as it's read, without changing the current state. The current
+   * state is only replaced once every chunk has been read, so if reading fails the entity manager is left as it was.
+   *
+   * @param chunks - The data, as a series of exports that each hold some of the entities
+   * @param componentTypes - A dictionary of Constructor functions used to instantiate components by name, in addition
+   *                         to the registered component types
+   * @param options - How to handle unknown components, and a callback for the progress made
+   *
+   * @returns - The highest entity id imported
+   *
+   * @throws {Error} - If reading a chunk fails, or a chunk can't be imported for the reasons import() gives
+   *
+   * @see import
+   */
+  async importChunks(
+    chunks: AsyncIterable<ECSData> | Iterable<ECSData>,
+    componentTypes: { [name: string]: new (...args: any[]) => any } = {},
+    options: ChunkedImportOptions = {}
+  ): Promise<EntityId> {
+    const staged = newStagedImport();
+    for await (const chunk of chunks) {
+      this.stageImport(staged, chunk, componentTypes, options);
+      if (options.onProgress) {
+        options.onProgress(staged.entities.length);
+      }
+      await nextTask();
+    }
+    return this.finishImport(staged);
+  }
+
+  /** Get the state of the ECS as a series of exports that each hold some of the entities, to be saved or sent as they
+   * are produced
+   *
+   * The entities to export are decided when the first chunk is requested, and each chunk is exported when it's
+   * requested. Entities removed in between are left out, and changes made in between are included in the chunks that
+   * haven't yet been produced.
+   *
+   * @param options - The number of entities in each chunk, and a callback for the progress made
+   *
+   * @see importChunks - Imports the chunks
+   */
+  async *exportChunks(
+    options: ChunkedExportOptions = {}
+  ): AsyncIterableIterator<ECSData> {
+    const chunkSize = options.chunkSize || 1000;
+    const ids = this.storage.ids();
+    for (let start = 0; start < ids.length || start === 0; start += chunkSize) {
+      const chunk = this.exportEntities(
+        ids.slice(start, start + chunkSize).filter((id) => this.exists(id))
+      );
+      if (options.onProgress) {
+        options.onProgress(Math.min(start + chunkSize, ids.length), ids.length);
+      }
+      yield chunk;
+      await nextTask();
+    }
+  }
+
+  /** Read imported data into the entities and indexes that will replace the current state
+   *
+   * @throws {Error} - If the data can't be imported, without having changed the current state
+   */
+  private stageImport(
+    staged: StagedImport,
+    data: ECSData,
+    componentTypes: { [name: string]: new (...args: any[]) => any },
+    options: ImportOptions
+  ): void | never {
+    const unknown = options.unknownComponents || 'throw';
+    componentTypes = { ...this.registry.types(), ...componentTypes };
+    data = migrate(data, this.version, this.migrations);
+    for (const [entityId, components] of Object.entries(data.entities)) {
+      const idAsNumber = Number(entityId);
+      const entityComponents: Component[] = [];
+      if (staged.ids.has(idAsNumber)) {
+        throw Error(
+          `Entity with id: ${idAsNumber} is imported more than once!`
+        );
+      }
+      staged.ids.add(idAsNumber);
+      for (const [componentName, componentData] of Object.entries(components)) {
+        if (componentName in componentTypes || unknown === 'throw') {
+          entityComponents.push(
+            this.createComponent(
+              idAsNumber,
+              componentName,
+              componentData,
+              componentTypes
+            )
+          );
+        } else if (unknown === 'keep') {
+          if (!staged.unknownComponents.has(idAsNumber)) {
+            staged.unknownComponents.set(idAsNumber, {});
+          }
+          staged.unknownComponents.get(idAsNumber)![componentName] =
+            componentData;
+        }
+      }
+      this.validateEntity(idAsNumber, entityComponents, staged.uniqueKeys);
+      staged.entities.push([idAsNumber, entityComponents]);
+    }
+    for (const componentName of data.indexed) {
+      if (componentName in componentTypes) {
+        const type = componentTypes[componentName];
+        if (staged.indexed.indexOf(type) === -1) {
+          staged.indexed.push(type);
+        }
+      } else if (unknown === 'keep') {
+        if (staged.unknownIndexed.indexOf(componentName) === -1) {
+          staged.unknownIndexed.push(componentName);
+        }
+      } else if (unknown === 'throw') {
+        throw Error(
+          `Component to index by: ${componentName} is not in type index!`
+        );
+      }
+    }
+  }
+
+  /** Replace the current state with the entities and indexes read from imported data
+   *
+   * @returns - The highest entity id imported
+   */
+  private finishImport(staged: StagedImport): EntityId {
+    let highestId: EntityId = 0;
+    let highestIndex = 0;
+    this.clear();
+    for (const [id, components] of staged.entities) {
+      highestId = Math.max(highestId, id);
+      highestIndex = Math.max(highestIndex, entityIndex(id));
+      this._createEntity(id, ...components);
+    }
+    this.unknownComponents = staged.unknownComponents;
+    this.unknownIndexed = staged.unknownIndexed;
+    staged.indexed
+      .filter((type) => !this.valueIndexes.has(type))
+      .forEach((type) => this.indexBy(type));
+    this.histories.forEach((history) => history.clear());
+    this.initialised.next();
+    this.currId = highestIndex + 1;
+    return highestId;
+  }
+
+  /** Set the state of the ECS from data produced by exportBinary()
+   *
+   * @param buffer - The binary data
+   * @param componentTypes - A dictionary of Constructor functions used to instantiate components by name, in addition
+   *                         to the registered component types
+   * @param options - How to handle components in the data that aren't in componentTypes
+   *
+   * @throws {Error} - If the data isn't in the binary format, or can't be imported for the reasons import() gives
+   *
+   * @see import
+   */
+  importBinary(
+    buffer: ArrayBuffer | Uint8Array,
+    componentTypes: { [name: string]: new (...args: any[]) => any } = {},
+    options: ImportOptions = {}
+  ): EntityId {
+    return this.import(fromBinary(buffer), componentTypes, options);
+  }
+
+  private createComponent(
+    id: EntityId,
+    componentName: string,
+    componentData: AnyJson,
+    componentTypes: { [name: string]: new (...args: any[]) => any }
+  ): Component | never {
+    if (!(componentName in componentTypes)) {
+      throw Error(
+        `Component in input data: ${componentName} is not in type index!`
+      );
+    }
+    try {
+      const type = componentTypes[componentName];
+      return componentFromData(type, componentData, this.registry.schema(type));
+    } catch (e) {
+      throw Error(
+        `Component: ${componentName} on entity: ${id} is invalid, ${e.message}`
+      );
+    }
+  }
+
+  /** Check a component against its type's schema, and that it can be added to the indexes for its type, before any
+   * changes are made
+   *
+   * @param sibling - Gives the entity's component of another type, as it will be once the component is added
+   * @param uniqueKeys - The keys taken in unique indexes by the entities staged so far, when checking entities that
+   *                     will replace the current ones, which the component's keys are added to
+   *
+   * @throws {Error} - Naming the entity and each field that doesn't match the schema, the key or position that can't
+   *                   be indexed, or the entity that already has a value that should be unique
+   */
+  private validateComponent(
+    id: EntityId,
+    component: Component,
+    sibling: (type: ComponentConstructor) => Component | undefined,
+    uniqueKeys?: Map<ValueIndex, Map<string, EntityId>>
+  ): void | never {
+    const type = typeOf(component);
+    this.registry.learn(type);
+    const schema = this.registry.schema(type);
+    const errors = schema ? schema.validate(component) : [];
+    if (errors.length !== 0) {
+      throw Error(
+        `Component: ${type.name} on entity: ${id} is invalid, ${errors.join(
+          ', '
+        )}`
+      );
+    }
+    for (const index of this.indexesOf(type)) {
+      let key: string | undefined;
+      try {
+        key = index.keyOf(
+          index.types.map((t) => (t === type ? component : sibling(t)))
+        );
+      } catch (e) {
+        throw Error(
+          `Component: ${type.name} on entity: ${id} can't be indexed, ${e.message}`
+        );
+      }
+      if (index.unique && key !== undefined) {
+        if (this.uniqueChecks) {
+          this.uniqueChecks.add(id);
+        } else {
+          this.checkUnique(id, type, index, key, uniqueKeys);
+        }
+      }
+    }
+    if (this.rangeIndexes.has(type)) {
+      this.checkRangeKey(id, component, this.rangeIndexes.get(type)!.key);
+    }
+    if (this.spatialIndexes.has(type)) {
+      this.checkPosition(
+        id,
+        component,
+        this.spatialIndexes.get(type)!.position
       );
-    } else {
-      return this.observeEntity$(id);
     }
   }
 
-  /** Subscribe to be notified when a type of component is modified
+  /** Check the components of an entity being created, as validateComponent() does
    *
-   * @param type: Constructor function of the Component type that events are to be sent for.
-   * @param callback: receives Entity, EntityId and component on change, null values for entity component indicate deletion.
+   * @throws {Error} - If a component is invalid or can't be indexed
    */
-  observeComponentType$<T_Constructor extends ComponentConstructor>(
-    type: T_Constructor
-  ): Observable<ComponentChange<InstanceType<T_Constructor>>> {
-    if (!this.componentRegistrations.has(type)) {
-      this.componentRegistrations.set(
-        type,
-        new Subject<ComponentChange<InstanceType<ComponentConstructor>>>()
+  private validateEntity(
+    id: EntityId,
+    components: Component[],
+    uniqueKeys?: Map<ValueIndex, Map<string, EntityId>>
+  ): void | never {
+    for (const component of components) {
+      this.validateComponent(
+        id,
+        component,
+        (type) => components.find((c) => typeOf(c) === type),
+        uniqueKeys
       );
     }
-    return this.componentRegistrations.get(type)!;
   }
 
-  /** Clear all entities, but retain the entity ID count
-   */
-  clear(): void {
-    this.init(this.currId);
-  }
-
-  /** Get the total number of entities currently being managed
+  /** Check that no other entity has a key in a unique index, taking the key for the entity if it's being staged
+   *
+   * @throws {Error} - Naming the entity that already has the key
    */
-  count(): number {
-    return Object.keys(this.entities).length;
+  private checkUnique(
+    id: EntityId,
+    type: ComponentConstructor,
+    index: ValueIndex,
+    key: string,
+    uniqueKeys?: Map<ValueIndex, Map<string, EntityId>>
+  ): void | never {
+    let other: EntityId | undefined;
+    if (uniqueKeys) {
+      if (!uniqueKeys.has(index)) {
+        uniqueKeys.set(index, new Map<string, EntityId>());
+      }
+      const holders = uniqueKeys.get(index)!;
+      other = holders.get(key);
+      holders.set(key, id);
+    } else {
+      other = index.otherHolder(id, key);
+    }
+    if (other !== undefined && other !== id) {
+      throw Error(
+        `Component: ${type.name} on entity: ${id} has the same value as on entity: ${other}, which should be unique!`
+      );
+    }
   }
 
-  /** Get the state of the ECS as a JSON data structure
+  /** Check the keys in unique indexes of the entities changed by a transaction, now that it has been applied
+   *
+   * @throws {Error} - Naming an entity that has the same value as another
    */
-  export() {
-    const data: ECSData = {
-      indexed: [],
-      entities: {},
-    };
-
-    for (const [id, entity] of Object.entries(this.entities)) {
-      data.entities[id] = data.entities[id] || {};
-      for (const { name, component } of entity.allComponents()) {
-        data.entities[id][name] = JSON.parse(JSON.stringify(component));
+  private checkUniqueKeys(): void | never {
+    for (const id of this.uniqueChecks!) {
+      for (const [type, index] of this.valueIndexes) {
+        const key = index.unique ? index.keyOfEntity(id) : undefined;
+        if (key !== undefined) {
+          this.checkUnique(id, type, index, key);
+        }
       }
     }
-
-    data.indexed = Array.from(this.componentValueEntities.keys()).map(
-      (componentConstructor) => componentConstructor.name
-    );
-
-    return data;
   }
 
-  observeInitialisation$() {
-    return this.initialised;
+  private checkRangeKey(
+    id: EntityId,
+    component: Component,
+    key: (component: any) => number
+  ): void | never {
+    const value = key(component);
+    if (typeof value !== 'number' || isNaN(value)) {
+      throw Error(
+        `Component: ${
+          typeOf(component).name
+        } on entity: ${id} has a range key: ${value}, which is not a number!`
+      );
+    }
   }
 
-  /** Set the state of the ECS from the data provided
-   *
-   * @param data JSON representation of the ECS state, usually obtained by the toData() method on an existing instance
-   * @param componentTypes A dictionary of Constructor functions used to instantiate components by name
-   *
-   * @note Doesn't make any consideration for event registrations, these have to be set up manually.
-   */
-  import(
-    data: ECSData,
-    componentTypes: { [name: string]: new (...args: any[]) => any }
-  ): EntityId {
-    let highestId: EntityId = 0;
-    this.clear();
-    for (const [entityId, components] of Object.entries(data.entities)) {
-      const idAsNumber = Number(entityId);
-      const entityComponents: Component[] = [];
-      highestId = Math.max(highestId, idAsNumber);
-      for (const [componentName, componentData] of Object.entries(components)) {
-        if (componentName in componentTypes) {
-          const component = new componentTypes[componentName](componentData);
-          entityComponents.push(component);
-        } else {
-          throw Error(
-            `Component in input data: ${componentName} is not in type index!`
-          );
-        }
-      }
-      this._createEntity(Number(entityId), ...entityComponents);
+  private checkPosition(
+    id: EntityId,
+    component: Component,
+    position: (component: any) => Point
+  ): void | never {
+    const { x, y } = position(component) || ({} as Point);
+    if (
+      !isFinite(x) ||
+      !isFinite(y) ||
+      typeof x !== 'number' ||
+      typeof y !== 'number'
+    ) {
+      throw Error(
+        `Component: ${
+          typeOf(component).name
+        } on entity: ${id} has a position: (${x}, ${y}), which is not a pair of numbers!`
+      );
     }
-    for (const componentName of data.indexed) {
-      if (componentName in componentTypes) {
-        this.indexBy(componentTypes[componentName]);
-      } else {
-        throw Error(
-          `Component to index by: ${componentName} is not in type index!`
-        );
-      }
+  }
+
+  private spatialIndex(componentType: ComponentConstructor): SpatialIndex {
+    const spatial = this.spatialIndexes.get(componentType);
+    if (!spatial) {
+      throw Error(
+        `Component type: ${componentType.name} is not set up for spatial indexing!`
+      );
     }
-    this.initialised.next();
-    this.currId = highestId + 1;
-    return highestId;
+    return spatial.index;
   }
 
   private housekeepAddComponent(
     id: EntityId,
-    component: Component
+    component: Component,
+    previous?: Component
   ): void | never {
     const type = Object.getPrototypeOf(component).constructor;
 
     if (this.componentEntities.get(type) === undefined) {
       this.componentEntities.set(type, new Set<EntityId>());
     }
-    if (!this.componentConstructorNameRegistry.has(type.name)) {
-      this.componentConstructorNameRegistry.set(type.name, type);
-    }
+    this.registry.learn(type);
 
     this.componentEntities.get(type)!.add(id);
 
-    if (this.componentValueEntities.has(type)) {
-      this.componentValueEntities.get(type)!.add(component, id);
+    this.updateIndexes(id, type);
+    if (this.rangeIndexes.has(type)) {
+      const { key, index } = this.rangeIndexes.get(type)!;
+      index.add(key(component), id);
+    }
+    if (this.spatialIndexes.has(type)) {
+      const { position, index } = this.spatialIndexes.get(type)!;
+      index.add(position(component), id);
+    }
+    if (component instanceof Relation) {
+      if (!this.relationSources.has(type)) {
+        this.relationSources.set(type, new Map<EntityId, Set<EntityId>>());
+      }
+      const targetSources = this.relationSources.get(type)!;
+      for (const target of component.targets) {
+        if (!targetSources.has(target)) {
+          targetSources.set(target, new Set<EntityId>());
+        }
+        targetSources.get(target)!.add(id);
+      }
+    }
+    if (component instanceof Parent) {
+      if (!this.entityChildren.has(component.id)) {
+        this.entityChildren.set(component.id, new Set<EntityId>());
+      }
+      this.entityChildren.get(component.id)!.add(id);
+    }
+    this.refreshViews(id, type);
+
+    if (this.batch) {
+      return;
     }
 
+    if (previous) {
+      this.views.forEach((view) => view.update(id, type));
+    }
     if (this.entityRegistrations.has(id)) {
-      this.entityRegistrations.get(id)!.next(this.entities[id]);
+      this.entityRegistrations.get(id)!.next(this.storage.entity(id));
     }
 
     const constructor = component.constructor as ComponentConstructor;
@@ -637,8 +2390,10 @@ export class EntityManager {
         >
       ).next({
         id: id,
-        e: this.entities[id],
+        kind: previous ? 'updated' : 'added',
+        e: this.storage.entity(id),
         c: component.clone(),
+        previous: previous && previous.clone(),
       });
     }
   }
@@ -652,11 +2407,35 @@ export class EntityManager {
     if (this.componentEntities.has(type)) {
       this.componentEntities.get(type)!.delete(id);
     }
-    if (this.componentValueEntities.has(type)) {
-      this.componentValueEntities.get(type)!.remove(component, id);
+    this.updateIndexes(id, type);
+    if (this.rangeIndexes.has(type)) {
+      this.rangeIndexes.get(type)!.index.remove(id);
+    }
+    if (this.spatialIndexes.has(type)) {
+      this.spatialIndexes.get(type)!.index.remove(id);
+    }
+    if (component instanceof Relation && this.relationSources.has(type)) {
+      const targetSources = this.relationSources.get(type)!;
+      for (const target of component.targets) {
+        const sources = targetSources.get(target);
+        if (sources) {
+          sources.delete(id);
+          if (sources.size === 0) {
+            targetSources.delete(target);
+          }
+        }
+      }
+    }
+    if (component instanceof Parent && this.entityChildren.has(component.id)) {
+      const siblings = this.entityChildren.get(component.id)!;
+      siblings.delete(id);
+      if (siblings.size === 0) {
+        this.entityChildren.delete(component.id);
+      }
     }
-    if (notify) {
-      let entityValue = this.entities[id];
+    this.refreshViews(id, type);
+    if (notify && !this.batch) {
+      let entityValue = this.current(id);
       if (this.entityRegistrations.has(id)) {
         this.entityRegistrations.get(id)!.next(entityValue);
       }
@@ -669,52 +2448,518 @@ export class EntityManager {
           >
         ).next({
           id: id,
+          kind: 'removed',
           e: entityValue,
+          previous: component.clone(),
         });
       }
     }
   }
 
-  private excludeComponents(
-    id: EntityId,
-    types: ComponentConstructor[]
-  ): Component[] {
-    return this.entities[id]
-      .allComponents()
-      .filter((ce: ComponentEntry) => {
-        return (
-          types.indexOf(Object.getPrototypeOf(ce.component).constructor) === -1
+  private refreshViews(id: EntityId, type?: ComponentConstructor): void {
+    if (this.batch) {
+      return;
+    }
+    for (const view of this.views) {
+      if (type === undefined || view.dependsOn(type)) {
+        view.refresh(id, this.current(id));
+      }
+      if (
+        type === undefined
+          ? view.query.parentTypes.length !== 0
+          : view.dependsOnParent(type)
+      ) {
+        for (const child of this.childIds(id)) {
+          view.refresh(child, this.current(child));
+        }
+      }
+    }
+  }
+
+  private record(mutation: Mutation): void {
+    if (this.batch) {
+      this.batch.push(mutation);
+    } else {
+      this.recordApplied([mutation]);
+    }
+  }
+
+  /** Record mutations that have been applied in the histories, except for the one they're being replayed from, and
+   * publish them as changes
+   */
+  private recordApplied(mutations: Mutation[], source?: History): void {
+    this.histories.forEach(
+      (history) => history !== source && history.record(mutations)
+    );
+    if (this.changes.observers.length !== 0) {
+      mutations.forEach((mutation) => this.publish(changeOf(mutation)));
+    }
+  }
+
+  private publish(change: WorldChange): void {
+    this.changes.next({ ...change, seq: ++this.changeSeq });
+  }
+
+  /** Apply a set of changes as a single change, unless already part of a larger one
+   *
+   * @throws {Error} - If a change can't be applied, in which case any changes already applied are rolled back
+   */
+  private atomically(apply: () => void): void {
+    if (this.batch) {
+      apply();
+      return;
+    }
+    this.recordApplied(this.applyBatch(apply));
+  }
+
+  /** Apply a set of changes with notifications held back until all have been applied
+   *
+   * @returns - The mutations that were made
+   *
+   * @throws {Error} - If a change can't be applied, in which case any changes already applied are rolled back
+   */
+  private applyBatch(apply: () => void): Mutation[] {
+    const applied: Mutation[] = [];
+    this.batch = applied;
+    try {
+      apply();
+    } catch (e) {
+      this.batch = [];
+      for (const mutation of applied.slice().reverse()) {
+        this.revert(mutation);
+      }
+      this.batch = null;
+      throw e;
+    }
+    this.batch = null;
+    this.notifyBatch(applied);
+    return applied;
+  }
+
+  /** Undo or redo a step recorded by a history, recording the changes in every other history */
+  private replay(source: History, mutations: Mutation[], undo: boolean): void {
+    const applied = this.applyBatch(() => {
+      if (undo) {
+        mutations
+          .slice()
+          .reverse()
+          .forEach((mutation) => this.revert(mutation));
+      } else {
+        mutations.forEach((mutation) => this.reapply(mutation));
+      }
+    });
+    this.recordApplied(applied, source);
+  }
+
+  private applyOperation(operation: TransactionOperation): void {
+    switch (operation.type) {
+      case 'create':
+        this._createEntity(operation.id, ...operation.components);
+        break;
+      case 'remove':
+        this.checkEntity(operation.id);
+        this.remove(operation.id);
+        break;
+      case 'setComponent':
+        this.setComponent(operation.id, operation.component);
+        break;
+      case 'removeComponent':
+        this.removeComponent(operation.id, operation.componentType);
+        break;
+      case 'setName':
+        this.setName(operation.id, operation.name);
+        break;
+    }
+  }
+
+  private applyChange(change: WorldChange): void | never {
+    switch (change.kind) {
+      case 'entityCreated':
+        if (this.exists(change.id)) {
+          throw Error(
+            `Entity with id: ${change.id} can't be created, it already exists!`
+          );
+        }
+        this._createEntity(
+          change.id,
+          ...change.components.map((c) => c.clone())
+        );
+        break;
+      case 'entityRemoved':
+        this.checkEntity(change.id);
+        this.removeEntity(change.id);
+        break;
+      case 'componentAdded':
+      case 'componentUpdated':
+        this.setComponent(change.id, change.component.clone());
+        break;
+      case 'componentRemoved':
+        this.removeComponent(change.id, typeOf(change.previous));
+        break;
+      case 'nameSet':
+        this.setName(change.id, change.name);
+        break;
+      case 'nameRemoved':
+        this.unassignName(change.name);
+        break;
+      case 'indexCreated':
+        this.createIndexFrom(change.index);
+        break;
+      case 'indexDropped':
+        this.dropIndex(change.name);
+        break;
+      case 'cleared':
+        this.clear();
+        break;
+    }
+  }
+
+  private createIndexFrom(index: IndexDefinition): void | never {
+    switch (index.type) {
+      case 'value':
+        this.indexBy(index.componentType, { unique: index.unique });
+        break;
+      case 'named':
+        this.dropIndex(index.name);
+        this.addNamedIndex(index.name, index.componentTypes, index.key);
+        break;
+      case 'range':
+        this.indexRange(index.componentType, index.key);
+        break;
+      case 'spatial':
+        this.indexSpatial(index.componentType, {
+          cellSize: index.cellSize,
+          position: index.position,
+        });
+        break;
+    }
+  }
+
+  private revert(mutation: Mutation): void {
+    switch (mutation.type) {
+      case 'create':
+        this.removeEntity(mutation.id);
+        break;
+      case 'remove':
+        this._createEntity(mutation.id, ...mutation.components);
+        break;
+      case 'setComponent':
+        if (mutation.previous) {
+          this.setComponent(mutation.id, mutation.previous);
+        } else {
+          this.removeComponent(mutation.id, typeOf(mutation.component));
+        }
+        break;
+      case 'removeComponent':
+        this.setComponent(mutation.id, mutation.previous);
+        break;
+      case 'setName':
+        if (mutation.previous === undefined) {
+          this.unassignName(mutation.name);
+        } else {
+          this.assignName(mutation.previous, mutation.name);
+        }
+        break;
+      case 'removeName':
+        this.assignName(mutation.id, mutation.name);
+        break;
+    }
+  }
+
+  /** Point a name at an entity, without checking that the entity exists, as when restoring a name by undoing */
+  private assignName(id: EntityId, name: string): void {
+    const previous = this.entityNameMapping[name];
+    this.entityNameMapping[name] = id;
+    this.record({ type: 'setName', id, name, previous });
+  }
+
+  private unassignName(name: string): void {
+    const id = this.entityNameMapping[name];
+    if (id !== undefined) {
+      delete this.entityNameMapping[name];
+      this.record({ type: 'removeName', id, name });
+    }
+  }
+
+  private reapply(mutation: Mutation): void {
+    switch (mutation.type) {
+      case 'create':
+        this._createEntity(mutation.id, ...mutation.components);
+        break;
+      case 'remove':
+        this.removeEntity(mutation.id);
+        break;
+      case 'setComponent':
+        this.setComponent(mutation.id, mutation.component);
+        break;
+      case 'removeComponent':
+        this.removeComponent(mutation.id, typeOf(mutation.previous));
+        break;
+      case 'setName':
+        this.setName(mutation.id, mutation.name);
+        break;
+      case 'removeName':
+        this.unassignName(mutation.name);
+        break;
+    }
+  }
+
+  /** Send the notifications held back while a batch of mutations was applied, one per entity and component */
+  private notifyBatch(mutations: Mutation[]): void {
+    const touched = new Map<
+      EntityId,
+      Map<ComponentConstructor, Component | undefined>
+    >();
+    for (const mutation of mutations) {
+      if (!touched.has(mutation.id)) {
+        touched.set(
+          mutation.id,
+          new Map<ComponentConstructor, Component | undefined>()
         );
-      })
-      .map((ce: ComponentEntry) => ce.component);
+      }
+      const types = touched.get(mutation.id)!;
+      for (const type of mutatedTypes(mutation)) {
+        if (!types.has(type)) {
+          types.set(type, previousComponent(mutation, type));
+        }
+      }
+    }
+
+    for (const id of touched.keys()) {
+      this.refreshViews(id);
+    }
+    for (const [id, types] of touched) {
+      if (types.size === 0) {
+        continue;
+      }
+      const entity = this.current(id);
+      if (this.entityRegistrations.has(id)) {
+        this.entityRegistrations.get(id)!.next(entity);
+      }
+      for (const [type, previous] of types) {
+        const component = this.storage.has(id)
+          ? this.storage.get(id, type)
+          : undefined;
+        if (component && previous) {
+          this.views.forEach((view) => view.update(id, type));
+        }
+        if (!this.componentRegistrations.has(type)) {
+          continue;
+        }
+        if (component) {
+          this.componentRegistrations.get(type)!.next({
+            id,
+            kind: previous ? 'updated' : 'added',
+            e: entity,
+            c: component.clone(),
+            previous: previous && previous.clone(),
+          });
+        } else if (previous) {
+          this.componentRegistrations.get(type)!.next({
+            id,
+            kind: 'removed',
+            e: entity,
+            previous: previous.clone(),
+          });
+        }
+      }
+    }
+  }
+
+  private inboundRelations(id: EntityId): [RelationConstructor, EntityId][] {
+    const inbound: [RelationConstructor, EntityId][] = [];
+    for (const [type, targetSources] of this.relationSources) {
+      for (const source of targetSources.get(id) || []) {
+        inbound.push([type, source]);
+      }
+    }
+    return inbound;
+  }
+
+  private childIds(id: EntityId): EntityId[] {
+    const children = this.entityChildren.get(id);
+    return children ? Array.from(children) : [];
+  }
+
+  private current(id: EntityId): Entity | undefined {
+    return this.storage.has(id) ? this.storage.entity(id) : undefined;
   }
 
   private checkEntity(id: EntityId): void | never {
     if (!this.exists(id)) {
+      const generation = this.generations.get(entityIndex(id));
+      if (generation !== undefined && generation > entityGeneration(id)) {
+        throw Error(
+          `Entity with id: ${id} is stale, its index has been reused by the entity with id: ${entityId(
+            entityIndex(id),
+            generation
+          )}`
+        );
+      }
       throw Error(`Entity with id: ${id} doesn't exist!`);
     }
   }
 
+  /** Reserve the id for a new entity, reusing the index of a removed entity when recycling
+   *
+   * The index is no longer free once reserved, so it isn't given out again while the entity is waiting to be created.
+   *
+   * @see releaseId - Frees the index again if the entity isn't created
+   */
+  private nextId(): EntityId {
+    if (this.recycleIds && this.freeIndices.size !== 0) {
+      const index = this.freeIndices.values().next().value;
+      this.freeIndices.delete(index);
+      return entityId(index, this.generations.get(index)! + 1);
+    }
+    return this.currId++;
+  }
+
+  /** Free the index of an id reserved by nextId() for an entity that was never created */
+  private releaseId(id: EntityId): void {
+    const index = entityIndex(id);
+    const generation = this.generations.get(index);
+    if (
+      this.recycleIds &&
+      generation !== undefined &&
+      generation === entityGeneration(id) - 1 &&
+      !this.exists(entityId(index, generation))
+    ) {
+      this.freeIndex(index);
+    }
+  }
+
+  /** Make an index available for reuse, unless its last generation has been used, in which case it's retired */
+  private freeIndex(index: number): void {
+    if (this.generations.get(index)! < MAX_GENERATION) {
+      this.freeIndices.add(index);
+    }
+  }
+
+  /** Free the ids reserved for the entities a transaction would have created */
+  private releaseIds(tx: Transaction): void {
+    for (const operation of tx.operations) {
+      if (operation.type === 'create') {
+        this.releaseId(operation.id);
+      }
+    }
+  }
+
+  private createWithNewId(components: Component[]): Entity | never {
+    const id = this.nextId();
+    try {
+      return this._createEntity(id, ...components);
+    } catch (e) {
+      this.releaseId(id);
+      throw e;
+    }
+  }
+
   private _createEntity(id: EntityId, ...components: Component[]): Entity {
-    const entity = new Entity(id, ...components);
-    this.entities[id] = entity;
+    this.validateEntity(id, components);
+    const index = entityIndex(id);
+    const generation = this.generations.get(index);
+    if (
+      generation !== undefined &&
+      generation !== entityGeneration(id) &&
+      this.exists(entityId(index, generation))
+    ) {
+      throw Error(
+        `Entity with id: ${id} can't be created, its index is in use by the entity with id: ${entityId(
+          index,
+          generation
+        )}`
+      );
+    }
+    this.generations.set(
+      index,
+      Math.max(generation === undefined ? 0 : generation, entityGeneration(id))
+    );
+    this.freeIndices.delete(index);
+    this.currId = Math.max(this.currId, index + 1);
+    this.storage.create(id, components);
+    const entity = this.storage.entity(id);
     for (const component of components) {
       this.housekeepAddComponent(id, component);
     }
+    this.refreshViews(id);
+    this.record({ type: 'create', id, components });
 
     return entity;
   }
 
-  private indexedEntitiesForType<T extends Component>(
-    component: T
-  ): HashTable<Hashable> {
-    const type = Object.getPrototypeOf(component).constructor;
-    const typeEntities = this.componentValueEntities.get(type);
-    if (!typeEntities) {
+  private valueIndex(component: Component): ValueIndex | never {
+    const type = typeOf(component);
+    const index = this.valueIndexes.get(type);
+    if (!index) {
       throw Error(
-        `Attempt to retrieve by component ??? not set up for indexing`
+        `Component type: ${type.name} is not set up for indexing by value!`
+      );
+    }
+    return index;
+  }
+
+  private namedIndex(name: string): ValueIndex | never {
+    const index = this.namedIndexes.get(name);
+    if (!index) {
+      throw Error(`Index: ${name} doesn't exist!`);
+    }
+    return index;
+  }
+
+  /** Get the value indexes and named indexes that take a key from a component type */
+  private indexesOf(type: ComponentConstructor): ValueIndex[] {
+    const indexes: ValueIndex[] = [];
+    if (this.valueIndexes.has(type)) {
+      indexes.push(this.valueIndexes.get(type)!);
+    }
+    for (const index of this.namedIndexes.values()) {
+      if (index.types.indexOf(type) !== -1) {
+        indexes.push(index);
+      }
+    }
+    return indexes;
+  }
+
+  /** Index an entity by its current components, in the indexes that take a key from a component type */
+  private updateIndexes(id: EntityId, type: ComponentConstructor): void {
+    for (const index of this.indexesOf(type)) {
+      if (this.exists(id)) {
+        index.update(
+          id,
+          index.types.map((t) => this.storage.get(id, t)),
+          this.uniqueChecks !== null
+        );
+      } else {
+        index.remove(id);
+      }
+    }
+  }
+
+  private addNamedIndex(
+    name: string,
+    types: ComponentConstructor[],
+    key: IndexKeyExtractor
+  ): void | never {
+    this.namedIndexes.set(name, this.buildIndex(types, key));
+    this.publish({
+      kind: 'indexCreated',
+      index: { type: 'named', name, componentTypes: types, key },
+    });
+  }
+
+  private buildIndex(
+    types: ComponentConstructor[],
+    key: IndexKeyExtractor,
+    unique = false
+  ): ValueIndex | never {
+    const index = new ValueIndex(types, key, unique);
+    for (const id of this.componentEntities.get(types[0]) || []) {
+      index.update(
+        id,
+        types.map((type) => this.storage.get(id, type))
       );
     }
-    return typeEntities;
+    return index;
   }
 }
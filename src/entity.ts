@@ -20,7 +20,7 @@ export class Entity {
   }
 
   component<T extends ComponentConstructor>(type: T): InstanceType<T> | never {
-    const c: Component | undefined = this.components_.get(type);
+    const c: Component | undefined = this.lookup(type);
     if (c !== undefined) {
       return c as InstanceType<T>;
     } else {
@@ -37,7 +37,7 @@ export class Entity {
   };
   components(...types: any[]): any[] {
     return types.map((t: ComponentConstructor) => {
-      let c = this.components_.get(t);
+      let c = this.lookup(t);
       if (!c) {
         throw Error(`Component requested: ${t.name}, couldn't be found`);
       }
@@ -47,7 +47,7 @@ export class Entity {
 
   allComponents(): ComponentEntry[] {
     const components: ComponentEntry[] = [];
-    for (const [componentConstructor, component] of this.components_) {
+    for (const [componentConstructor, component] of this.entries()) {
       components.push({
         name: componentConstructor.name,
         component: component
@@ -59,17 +59,26 @@ export class Entity {
   has(types: ComponentConstructor | ComponentConstructor[]): boolean {
     if (types instanceof Array) {
       for (const type of types) {
-        if (!this.components_.has(type)) {
+        if (this.lookup(type) === undefined) {
           return false;
         }
       }
       return true;
     } else {
-      return this.components_.has(types);
+      return this.lookup(types) !== undefined;
     }
   }
 
   get id(): number {
     return this.id_;
   }
+
+  /** Where components are read from, overridden by entities that are views onto component storage */
+  protected lookup(type: ComponentConstructor): Component | undefined {
+    return this.components_.get(type);
+  }
+
+  protected entries(): Iterable<[ComponentConstructor, Component]> {
+    return this.components_;
+  }
 }
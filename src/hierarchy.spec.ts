@@ -0,0 +1,130 @@
+import { Entity } from './entity';
+import { EntityId, EntityManager } from './entity-manager';
+import { Parent } from './hierarchy';
+import { Physical, Position, Renderable, Size } from './dummy-components.model';
+
+describe('Hierarchy', () => {
+  let em: EntityManager;
+  let root: EntityId;
+  let child: EntityId;
+  let grandchild: EntityId;
+  let other: EntityId;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    root = em.create(new Position({ x: 0, y: 0 })).id;
+    child = em.create(new Position({ x: 1, y: 1 })).id;
+    grandchild = em.create(new Position({ x: 2, y: 2 })).id;
+    other = em.create(new Position({ x: 3, y: 3 })).id;
+    em.setParent(child, root);
+    em.setParent(grandchild, child);
+    em.setParent(other, root);
+  });
+
+  it('should track parents and children', () => {
+    expect(em.getParent(child)).toEqual(root);
+    expect(em.getParent(root)).toBeUndefined();
+    expect(em.children(root)).toEqual([child, other]);
+    expect(em.children(grandchild)).toEqual([]);
+  });
+
+  it('should give ancestors nearest first', () => {
+    expect(em.ancestors(grandchild)).toEqual([child, root]);
+    expect(em.ancestors(root)).toEqual([]);
+  });
+
+  it('should give descendants depth first', () => {
+    expect(em.descendants(root)).toEqual([child, grandchild, other]);
+  });
+
+  it('should move an entity to a new parent', () => {
+    em.setParent(grandchild, other);
+    expect(em.children(child)).toEqual([]);
+    expect(em.children(other)).toEqual([grandchild]);
+    em.setParent(grandchild, undefined);
+    expect(em.children(other)).toEqual([]);
+    expect(em.getParent(grandchild)).toBeUndefined();
+  });
+
+  it('should not allow cycles', () => {
+    expect(() => em.setParent(root, grandchild)).toThrow();
+    expect(() => em.setParent(root, root)).toThrow();
+    expect(() => em.setParent(root, 9999999)).toThrow();
+  });
+
+  it('should orphan children on removal by default', () => {
+    em.remove(child);
+    expect(em.exists(grandchild)).toBe(true);
+    expect(em.getParent(grandchild)).toBeUndefined();
+    expect(em.children(root)).toEqual([other]);
+  });
+
+  it('should cascade removal when asked to', () => {
+    em.remove(root, 'cascade');
+    expect(em.count()).toEqual(0);
+  });
+
+  it('should cascade removal when configured to', () => {
+    const cascading = new EntityManager({ removalPolicy: 'cascade' });
+    const parent = cascading.create().id;
+    cascading.setParent(cascading.create().id, parent);
+    cascading.remove(parent);
+    expect(cascading.count()).toEqual(0);
+  });
+
+  it('should cascade removal through parents that form a cycle', () => {
+    const cyclic = new EntityManager({ removalPolicy: 'cascade' });
+    cyclic.import({
+      indexed: [],
+      entities: {
+        1: { Parent: { id: 2 } },
+        2: { Parent: { id: 1 } },
+        3: { Parent: { id: 2 } },
+      },
+    });
+    expect(cyclic.remove(1)).toBe(true);
+    expect(cyclic.count()).toEqual(0);
+  });
+
+  it('should undo a cascading removal in one step', () => {
+    const history = em.history();
+    const before = em.export();
+    em.remove(root, 'cascade');
+    history.undo();
+    expect(em.export()).toEqual(before);
+    expect(em.descendants(root).sort()).toEqual([child, grandchild, other]);
+  });
+
+  it('should roundtrip through export and import', () => {
+    const data = em.export();
+    const imported = new EntityManager();
+    imported.import(data, { Position });
+    expect(imported.descendants(root)).toEqual([child, grandchild, other]);
+  });
+
+  it('should query entities by the components of their parent', () => {
+    em.setComponent(root, new Renderable('root', 0));
+    const query = em.query().with(Position).withParent(Renderable);
+    expect(query.ids()).toEqual([child, other]);
+  });
+
+  it('should keep views up to date as parents change', () => {
+    const view = em.view(em.query().withParent(Physical));
+    const exited: EntityId[] = [];
+    view.exited$.subscribe((id) => exited.push(id));
+    expect(view.ids()).toEqual([]);
+    em.setComponent(child, new Physical(Size.FILL));
+    expect(view.ids()).toEqual([grandchild]);
+    em.setParent(other, child);
+    expect(view.ids()).toEqual([grandchild, other]);
+    em.removeComponent(child, Physical);
+    expect(view.count()).toEqual(0);
+    expect(exited).toEqual([grandchild, other]);
+  });
+
+  it('should store the parent as a component', () => {
+    expect(
+      em.matching(Parent).map((e: Entity) => e.component(Parent).id)
+    ).toEqual([root, child, root]);
+  });
+});
@@ -0,0 +1,33 @@
+import { Component } from './component';
+import { EntityId } from './entity-manager';
+
+/** What happens to the children of an entity when it's removed
+ *
+ * - cascade: the children are removed too, along with all of their descendants
+ * - orphan: the children are kept, with their Parent component removed
+ */
+export type RemovalPolicy = 'cascade' | 'orphan';
+
+/** Links an entity to its parent entity in a hierarchy
+ *
+ * @see EntityManager.setParent - Sets the parent of an entity, guarding against cycles
+ */
+export class Parent extends Component {
+  id: EntityId;
+
+  constructor({ id }: { id: EntityId }) {
+    super();
+    this.id = id;
+  }
+
+  hash(): string {
+    return `${this.id}`;
+  }
+
+  remapEntities(
+    remap: (id: EntityId) => EntityId | undefined
+  ): Parent | undefined {
+    const id = remap(this.id);
+    return id === undefined ? undefined : new Parent({ id });
+  }
+}
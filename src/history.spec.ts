@@ -0,0 +1,195 @@
+import { EntityId, EntityManager } from './entity-manager';
+import { History } from './history';
+import { Schema } from './schema';
+import { Physical, Position, Renderable, Size } from './dummy-components.model';
+
+describe('History', () => {
+  let em: EntityManager;
+  let history: History;
+  let existingId: EntityId;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    em.indexBy(Position);
+    existingId = em.create(new Position({ x: 1, y: 1 })).id;
+    history = em.history();
+  });
+
+  it('should undo and redo component changes', () => {
+    em.setComponent(existingId, new Position({ x: 2, y: 2 }));
+    em.setComponent(existingId, new Renderable('r', 1));
+    em.removeComponent(existingId, Position);
+
+    history.undo();
+    expect(em.getComponent(existingId, Position)).toEqual(
+      new Position({ x: 2, y: 2 })
+    );
+    history.undo();
+    expect(em.hasComponent(existingId, Renderable)).toBe(false);
+    history.undo();
+    expect(em.getComponent(existingId, Position)).toEqual(
+      new Position({ x: 1, y: 1 })
+    );
+    expect(em.countIndex(new Position({ x: 1, y: 1 }))).toEqual(1);
+    expect(em.countIndex(new Position({ x: 2, y: 2 }))).toEqual(0);
+    expect(history.undo()).toBeUndefined();
+
+    history.redo();
+    history.redo();
+    history.redo();
+    expect(em.get(existingId).has(Position)).toBe(false);
+    expect(em.get(existingId).has(Renderable)).toBe(true);
+    expect(history.redo()).toBeUndefined();
+  });
+
+  it('should undo and redo entity creation and removal', () => {
+    const before = em.export();
+    const id = em.create(new Physical(Size.FILL)).id;
+    em.remove(existingId);
+    const after = em.export();
+
+    history.undo();
+    history.undo();
+    expect(em.export()).toEqual(before);
+    expect(em.exists(id)).toBe(false);
+
+    history.redo();
+    history.redo();
+    expect(em.export()).toEqual(after);
+  });
+
+  it('should undo names', () => {
+    em.setName(existingId, 'existing');
+    history.undo();
+    expect(() => em.getNamed('existing')).toThrow();
+    history.redo();
+    expect(em.getNamed('existing').id).toEqual(existingId);
+  });
+
+  it('should group changes into labelled steps', () => {
+    history.step('move', () => {
+      em.setComponent(existingId, new Position({ x: 2, y: 2 }));
+      em.setComponent(existingId, new Position({ x: 3, y: 3 }));
+    });
+    history.begin('decorate');
+    em.setComponent(existingId, new Renderable('r', 1));
+    history.begin('nested');
+    em.setComponent(existingId, new Physical(Size.FILL));
+    history.end();
+    history.end();
+
+    expect(history.undoLabels()).toEqual(['move', 'decorate']);
+    expect(history.undo()!.label).toEqual('decorate');
+    expect(em.get(existingId).has([Renderable])).toBe(false);
+    expect(em.get(existingId).has([Physical])).toBe(false);
+    expect(history.redoLabels()).toEqual(['decorate']);
+    history.undo();
+    expect(em.getComponent(existingId, Position)).toEqual(
+      new Position({ x: 1, y: 1 })
+    );
+  });
+
+  it('should record a committed transaction as a single step', () => {
+    em.transaction((tx) => {
+      tx.create(new Position({ x: 5, y: 5 }));
+      tx.remove(existingId);
+    });
+    history.undo();
+    expect(em.ids()).toEqual([existingId]);
+  });
+
+  it('should not record a rolled back transaction', () => {
+    expect(() =>
+      em.transaction((tx) => {
+        tx.setComponent(existingId, new Position({ x: 5, y: 5 }));
+        tx.remove(9999999);
+        tx.removeComponent(9999999, Position);
+      })
+    ).toThrow();
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should discard the redo steps once a new change is made', () => {
+    em.setComponent(existingId, new Position({ x: 2, y: 2 }));
+    history.undo();
+    expect(history.canRedo()).toBe(true);
+    em.setComponent(existingId, new Renderable('r', 1));
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('should discard the oldest steps beyond its capacity', () => {
+    history.dispose();
+    history = em.history({ capacity: 2 });
+    for (let x = 2; x < 6; ++x) {
+      em.setComponent(existingId, new Position({ x, y: x }));
+    }
+    expect(history.undoLabels().length).toEqual(2);
+    history.undo();
+    history.undo();
+    expect(history.undo()).toBeUndefined();
+    expect(em.getComponent(existingId, Position)).toEqual(
+      new Position({ x: 3, y: 3 })
+    );
+  });
+
+  it('should send coalesced notifications when undoing a step', () => {
+    history.step('move', () => {
+      em.setComponent(existingId, new Position({ x: 2, y: 2 }));
+      em.setComponent(existingId, new Position({ x: 3, y: 3 }));
+    });
+    const changes: (Position | undefined)[] = [];
+    em.observeComponentType$(Position).subscribe((c) => changes.push(c.c));
+    history.undo();
+    expect(changes).toEqual([new Position({ x: 1, y: 1 })]);
+  });
+
+  it('should keep a step that fails to be undone', () => {
+    history.step('move', () =>
+      em.setComponent(existingId, new Position({ x: 2, y: 2 }))
+    );
+    em.registerComponent(Position, {
+      schema: new Schema({ x: 'number', y: 'number', z: 'number' }),
+    });
+    expect(() => history.undo()).toThrow();
+    expect(history.undoLabels()).toEqual(['move']);
+    expect(history.redoLabels()).toEqual([]);
+    expect(em.getComponent(existingId, Position)).toEqual(
+      new Position({ x: 2, y: 2 })
+    );
+  });
+
+  it('should keep a step that fails to be redone', () => {
+    history.step('move', () =>
+      em.setComponent(existingId, new Position({ x: 2, y: 2 }))
+    );
+    history.undo();
+    em.registerComponent(Position, {
+      schema: new Schema({ x: 'number', y: 'number', z: 'number' }),
+    });
+    expect(() => history.redo()).toThrow();
+    expect(history.undoLabels()).toEqual([]);
+    expect(history.redoLabels()).toEqual(['move']);
+    expect(em.getComponent(existingId, Position)).toEqual(
+      new Position({ x: 1, y: 1 })
+    );
+  });
+
+  it('should not allow undo while a step is being grouped', () => {
+    history.begin();
+    expect(() => history.undo()).toThrow();
+    history.end();
+    expect(() => history.end()).toThrow();
+  });
+
+  it('should forget all steps when the state is cleared', () => {
+    em.setComponent(existingId, new Position({ x: 2, y: 2 }));
+    em.clear();
+    expect(history.canUndo()).toBe(false);
+  });
+
+  it('should stop recording once disposed', () => {
+    history.dispose();
+    em.setComponent(existingId, new Position({ x: 2, y: 2 }));
+    expect(history.canUndo()).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+import { Mutation } from './mutation';
+
+export interface HistoryOptions {
+  /** Maximum number of steps that can be undone, the oldest steps are discarded beyond this. Unlimited by default */
+  capacity?: number;
+}
+
+/** A group of mutations that are undone and redone together */
+export interface HistoryStep {
+  label?: string;
+  mutations: Mutation[];
+}
+
+/** Records the changes made to an EntityManager so that they can be undone and redone
+ *
+ * Each change is recorded as its own step, except for committed transactions which are recorded as a single step.
+ * Changes can be grouped into a labelled step with begin() and end(), or step().
+ *
+ * @see EntityManager.history - Starts recording the history of an entity manager
+ */
+export class History {
+  private undoSteps: HistoryStep[] = [];
+  private redoSteps: HistoryStep[] = [];
+  private open: HistoryStep | null = null;
+  private depth = 0;
+
+  /**
+   * @param options - Configuration for what is recorded
+   * @param replay - Undoes or redoes the mutations of a step against the entity manager
+   * @param onDispose - Called when the history stops recording
+   */
+  constructor(
+    private options: HistoryOptions,
+    private replay: (mutations: Mutation[], undo: boolean) => void,
+    private onDispose: (history: History) => void
+  ) {}
+
+  /** Start grouping changes into a single step, ended by a matching call to end()
+   *
+   * Groups can be nested, in which case all changes go into the outermost step.
+   *
+   * @param label - Description of the step e.g. for display in an editor's undo menu
+   */
+  begin(label?: string): void {
+    if (this.depth++ === 0) {
+      this.open = { label, mutations: [] };
+    }
+  }
+
+  /** Stop grouping changes, recording the step once the outermost group has ended
+   *
+   * @throws {Error} - If there is no group to end
+   */
+  end(): void {
+    if (this.depth === 0) {
+      throw Error(`Attempt to end a history step that hasn't begun!`);
+    }
+    if (--this.depth === 0) {
+      const step = this.open!;
+      this.open = null;
+      this.push(step);
+    }
+  }
+
+  /** Group all changes made by a callback into a single step
+   *
+   * @param label - Description of the step
+   * @param callback - Makes the changes to group
+   *
+   * @returns - Whatever the callback returns
+   */
+  step<T>(label: string, callback: () => T): T {
+    this.begin(label);
+    try {
+      return callback();
+    } finally {
+      this.end();
+    }
+  }
+
+  /** Record a set of mutations as a single change, called by the entity manager as changes are made */
+  record(mutations: Mutation[]): void {
+    if (this.open) {
+      this.open.mutations.push(...mutations);
+    } else {
+      this.push({ mutations: mutations.slice() });
+    }
+  }
+
+  /** Revert the most recent step
+   *
+   * @returns - The step that was undone, or undefined if there was nothing to undo
+   *
+   * @throws {Error} - If a step is still being grouped, or the step can't be reverted, in which case it's kept to be
+   *                   undone later
+   */
+  undo(): HistoryStep | undefined {
+    this.checkClosed();
+    const step = this.undoSteps[this.undoSteps.length - 1];
+    if (step) {
+      this.replay(step.mutations, true);
+      this.redoSteps.push(this.undoSteps.pop()!);
+    }
+    return step;
+  }
+
+  /** Re-apply the most recently undone step
+   *
+   * @returns - The step that was redone, or undefined if there was nothing to redo
+   *
+   * @throws {Error} - If a step is still being grouped, or the step can't be re-applied, in which case it's kept to be
+   *                   redone later
+   */
+  redo(): HistoryStep | undefined {
+    this.checkClosed();
+    const step = this.redoSteps[this.redoSteps.length - 1];
+    if (step) {
+      this.replay(step.mutations, false);
+      this.undoSteps.push(this.redoSteps.pop()!);
+    }
+    return step;
+  }
+
+  canUndo(): boolean {
+    return this.undoSteps.length !== 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoSteps.length !== 0;
+  }
+
+  /** Get the labels of the steps that can be undone, most recent last */
+  undoLabels(): (string | undefined)[] {
+    return this.undoSteps.map((step) => step.label);
+  }
+
+  /** Get the labels of the steps that can be redone, next to be redone last */
+  redoLabels(): (string | undefined)[] {
+    return this.redoSteps.map((step) => step.label);
+  }
+
+  /** Discard all recorded steps, including any step being grouped */
+  clear(): void {
+    this.undoSteps = [];
+    this.redoSteps = [];
+    this.open = null;
+    this.depth = 0;
+  }
+
+  /** Stop recording changes and discard all recorded steps */
+  dispose(): void {
+    this.onDispose(this);
+    this.clear();
+  }
+
+  private push(step: HistoryStep): void {
+    if (step.mutations.length === 0) {
+      return;
+    }
+    this.undoSteps.push(step);
+    this.redoSteps = [];
+    const capacity = this.options.capacity;
+    if (capacity !== undefined && this.undoSteps.length > capacity) {
+      this.undoSteps.splice(0, this.undoSteps.length - capacity);
+    }
+  }
+
+  private checkClosed(): void | never {
+    if (this.depth !== 0) {
+      throw Error(`Can't undo or redo while a history step is being recorded!`);
+    }
+  }
+}
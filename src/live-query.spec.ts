@@ -0,0 +1,110 @@
+import { Subscription } from 'rxjs';
+import { EntityId, EntityManager, QueryEvent } from './entity-manager';
+import { Position, Renderable } from './dummy-components.model';
+
+/** Describe an event by its kind and the ids of the entities it's about */
+function describeEvent(event: QueryEvent): string {
+  switch (event.kind) {
+    case 'current':
+      return `current ${event.entities.map((e) => e.id).join(',')}`;
+    case 'removed':
+      return `removed ${event.id}`;
+    default:
+      return `${event.kind} ${event.e.id}`;
+  }
+}
+
+describe('Live queries', () => {
+  let em: EntityManager;
+  let events: string[];
+  let subscription: Subscription;
+  let drawn: EntityId;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    drawn = em.create(
+      new Position({ x: 0, y: 0 }),
+      new Renderable('player', 1)
+    ).id;
+    em.create(new Position({ x: 1, y: 1 }));
+    events = [];
+    subscription = em
+      .query$(Position, Renderable)
+      .subscribe((event) => events.push(describeEvent(event)));
+  });
+
+  it('should emit the matching entities on subscribing', () => {
+    expect(events).toEqual([`current ${drawn}`]);
+  });
+
+  it('should emit entities as they start and stop matching, and as their components change', () => {
+    const id = em.create(new Renderable('tree', 2)).id;
+    em.setComponent(id, new Position({ x: 3, y: 3 }));
+    em.setComponent(drawn, new Position({ x: 0, y: 1 }));
+    em.removeComponent(id, Renderable);
+    em.remove(drawn);
+    expect(events.slice(1)).toEqual([
+      `added ${id}`,
+      `changed ${drawn}`,
+      `removed ${id}`,
+      `removed ${drawn}`,
+    ]);
+  });
+
+  it('should emit once for each entity changed by a transaction', () => {
+    em.transaction((tx) => {
+      tx.setComponent(drawn, new Position({ x: 5, y: 5 }));
+      tx.setComponent(drawn, new Position({ x: 6, y: 6 }));
+    });
+    expect(events.slice(1)).toEqual([`changed ${drawn}`]);
+  });
+
+  it('should stop maintaining the query once unsubscribed', () => {
+    subscription.unsubscribe();
+    em.create(new Position({ x: 2, y: 2 }), new Renderable('rock', 0));
+    expect(events).toEqual([`current ${drawn}`]);
+  });
+
+  it('should keep emitting after the entity manager is imported into', () => {
+    const data = em.export();
+    em.import(data, { Position, Renderable });
+    expect(events.slice(1)).toEqual([`removed ${drawn}`, `added ${drawn}`]);
+  });
+});
+
+describe('Live index lookups', () => {
+  let em: EntityManager;
+  let events: string[];
+  let first: EntityId;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    em.indexBy(Position);
+    first = em.create(new Position({ x: 1, y: 1 })).id;
+    em.create(new Position({ x: 2, y: 2 }));
+    events = [];
+    em.matchingIndex$(new Position({ x: 1, y: 1 })).subscribe((event) =>
+      events.push(describeEvent(event))
+    );
+  });
+
+  it('should emit the entities with the value as they gain and lose it', () => {
+    const second = em.create(new Position({ x: 1, y: 1 })).id;
+    em.setComponent(first, new Position({ x: 1, y: 1 }));
+    em.setComponent(first, new Position({ x: 3, y: 3 }));
+    em.remove(second);
+    expect(events).toEqual([
+      `current ${first}`,
+      `added ${second}`,
+      `changed ${first}`,
+      `removed ${first}`,
+      `removed ${second}`,
+    ]);
+  });
+
+  it('should not allow a type that is not set up for indexing by value', () => {
+    expect(() => em.matchingIndex$(new Renderable('tree', 1))).toThrow(
+      'Component type: Renderable is not set up for indexing by value!'
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { Component, ECSData, EntityManager } from './entity-manager';
+import { migrate } from './migration';
+import { Position } from './dummy-components.model';
+
+class Health extends Component {
+  current: number;
+  max: number;
+  constructor({ current, max }: { current: number; max: number }) {
+    super();
+    this.current = current;
+    this.max = max;
+  }
+}
+
+const VERSION_1_DATA = (): ECSData => ({
+  indexed: ['Pos'],
+  entities: {
+    1: { Pos: { x: 1, y: 2 }, Health: { hp: 5 } },
+    2: { Pos: { x: 3, y: 4 } },
+  },
+});
+
+describe('Migrations', () => {
+  let em: EntityManager;
+
+  beforeEach(() => {
+    em = new EntityManager({ version: 3 });
+    em.registerMigration(1, 'Pos', { rename: 'Position' });
+    em.registerMigration(1, 'Health', {
+      migrate: (data: any) => ({ current: data.hp }),
+    });
+    em.registerMigration(2, 'Health', {
+      migrate: (data: any) => ({ ...data, max: data.current }),
+    });
+  });
+
+  it('should stamp exported data with the version', () => {
+    expect(em.export().version).toEqual(3);
+    expect(new EntityManager().export().version).toEqual(1);
+  });
+
+  it('should migrate data through each version during import', () => {
+    em.import(VERSION_1_DATA(), { Position, Health });
+    expect(em.getComponent(1, Position)).toEqual(new Position({ x: 1, y: 2 }));
+    expect(em.getComponent(1, Health)).toEqual(
+      new Health({ current: 5, max: 5 })
+    );
+    expect(em.matchingIndex(new Position({ x: 3, y: 4 }))[0].id).toEqual(2);
+  });
+
+  it('should only apply migrations from the version of the data onwards', () => {
+    em.import(
+      { version: 2, indexed: [], entities: { 1: { Health: { current: 7 } } } },
+      { Health }
+    );
+    expect(em.getComponent(1, Health)).toEqual(
+      new Health({ current: 7, max: 7 })
+    );
+  });
+
+  it('should leave the data being imported unchanged', () => {
+    const data = VERSION_1_DATA();
+    em.import(data, { Position, Health });
+    expect(data).toEqual(VERSION_1_DATA());
+  });
+
+  it('should not import data from a newer version', () => {
+    expect(() =>
+      em.import({ version: 4, indexed: [], entities: {} }, {})
+    ).toThrow();
+  });
+
+  it('should not register two migrations for the same component and version', () => {
+    expect(() => em.registerMigration(1, 'Pos', {})).toThrow();
+  });
+
+  it('should be usable without an entity manager', () => {
+    const migrations = new Map([[1, new Map([['Pos', { rename: 'P' }]])]]);
+    expect(migrate(VERSION_1_DATA(), 2, migrations).indexed).toEqual(['P']);
+  });
+});
+
+describe('Unknown components', () => {
+  let em: EntityManager;
+  const data = (): ECSData => ({
+    version: 1,
+    indexed: ['Unknown'],
+    entities: { 1: { Position: { x: 1, y: 1 }, Unknown: { a: [1, 2] } } },
+  });
+
+  beforeEach(() => {
+    em = new EntityManager();
+  });
+
+  it('should throw by default', () => {
+    expect(() => em.import(data(), { Position })).toThrow();
+  });
+
+  it('should drop them if configured to', () => {
+    em.import(data(), { Position }, { unknownComponents: 'drop' });
+    expect(em.get(1).has(Position)).toBe(true);
+    expect(em.getUnknownComponents(1)).toEqual({});
+    expect(em.export()).toEqual({
+      version: 1,
+      indexed: [],
+      entities: { 1: { Position: { x: 1, y: 1 } } },
+    });
+  });
+
+  it('should keep their raw data if configured to', () => {
+    em.import(data(), { Position }, { unknownComponents: 'keep' });
+    expect(em.getUnknownComponents(1)).toEqual({ Unknown: { a: [1, 2] } });
+    expect(em.export()).toEqual(data());
+  });
+
+  it('should discard their raw data when the entity is removed', () => {
+    em.import(data(), { Position }, { unknownComponents: 'keep' });
+    em.remove(1);
+    em.create();
+    expect(Object.keys(em.export().entities)).toEqual(['2']);
+  });
+});
@@ -0,0 +1,64 @@
+import { ECSData } from './entity-manager';
+import { AnyJson, JsonObject } from './types';
+
+/** Rewrites the data of a component saved with an old version of the data format */
+export interface ComponentMigration {
+  /** Name that the component has in the next version, if it was renamed */
+  rename?: string;
+  /** Converts the component's data to its shape in the next version */
+  migrate?: (data: AnyJson) => AnyJson;
+}
+
+/** Migrations for each component name, keyed by the version that they migrate from */
+export type MigrationRegistry = Map<number, Map<string, ComponentMigration>>;
+
+/** Bring data exported with an old version of the data format up to the current version
+ *
+ * The migrations registered for each version are applied in turn, so data can be several versions behind.
+ *
+ * @param data - The exported data, which is left unchanged
+ * @param version - The current version of the data format
+ * @param migrations - The migrations to apply
+ *
+ * @returns - A copy of the data, in the current version of the format
+ *
+ * @throws {Error} - If the data is from a newer version of the format than the current one
+ */
+export function migrate(
+  data: ECSData,
+  version: number,
+  migrations: MigrationRegistry
+): ECSData {
+  let from = data.version === undefined ? 1 : data.version;
+  if (from > version) {
+    throw Error(
+      `Data version: ${from} is newer than the supported version: ${version}!`
+    );
+  }
+  let entities = data.entities;
+  let indexed = data.indexed;
+  for (; from < version; ++from) {
+    const forVersion = migrations.get(from);
+    if (!forVersion) {
+      continue;
+    }
+    const renamed = (name: string) => {
+      const migration = forVersion.get(name);
+      return migration && migration.rename ? migration.rename : name;
+    };
+    const migrated: { [entityId: string]: JsonObject } = {};
+    for (const [entityId, components] of Object.entries(entities)) {
+      migrated[entityId] = {};
+      for (const [name, componentData] of Object.entries(components)) {
+        const migration = forVersion.get(name);
+        migrated[entityId][renamed(name)] =
+          migration && migration.migrate
+            ? migration.migrate(JSON.parse(JSON.stringify(componentData)))
+            : componentData;
+      }
+    }
+    entities = migrated;
+    indexed = indexed.map(renamed);
+  }
+  return { version, indexed, entities };
+}
@@ -0,0 +1,53 @@
+import { Component, ComponentConstructor } from './component';
+import { EntityId } from './entity-manager';
+import { typeOf } from './utils';
+
+/** A single change made to the state of an EntityManager, along with the state it replaced */
+export type Mutation =
+  | { type: 'create'; id: EntityId; components: Component[] }
+  | { type: 'remove'; id: EntityId; components: Component[] }
+  | {
+      type: 'setComponent';
+      id: EntityId;
+      component: Component;
+      previous?: Component;
+    }
+  | { type: 'removeComponent'; id: EntityId; previous: Component }
+  | { type: 'setName'; id: EntityId; name: string; previous?: EntityId }
+  | { type: 'removeName'; id: EntityId; name: string };
+
+/** Get the component types a mutation affects */
+export function mutatedTypes(mutation: Mutation): ComponentConstructor[] {
+  switch (mutation.type) {
+    case 'create':
+    case 'remove':
+      return mutation.components.map(typeOf);
+    case 'setComponent':
+      return [typeOf(mutation.component)];
+    case 'removeComponent':
+      return [typeOf(mutation.previous)];
+    case 'setName':
+    case 'removeName':
+      return [];
+  }
+}
+
+/** Get the component of the given type that was on the entity before a mutation was applied */
+export function previousComponent(
+  mutation: Mutation,
+  type: ComponentConstructor
+): Component | undefined {
+  switch (mutation.type) {
+    case 'create':
+      return undefined;
+    case 'remove':
+      return mutation.components.find((c) => typeOf(c) === type);
+    case 'setComponent':
+      return mutation.previous;
+    case 'removeComponent':
+      return mutation.previous;
+    case 'setName':
+    case 'removeName':
+      return undefined;
+  }
+}
@@ -0,0 +1,146 @@
+import { Component, EntityManager } from './entity-manager';
+import { PrefabData } from './prefab';
+import { Position } from './dummy-components.model';
+
+class Health extends Component {
+  current: number;
+  max: number;
+  constructor({ current, max }: { current: number; max: number }) {
+    super();
+    this.current = current;
+    this.max = max;
+  }
+}
+
+class Weapon extends Component {
+  name: string;
+  range: number;
+  constructor({ name, range }: { name: string; range: number }) {
+    super();
+    this.name = name;
+    this.range = range;
+  }
+}
+
+const COMPONENT_TYPES = { Position, Health, Weapon };
+
+const PREFABS = (): PrefabData => ({
+  prefabs: {
+    goblin: {
+      components: {
+        Health: { current: 5, max: 5 },
+        Weapon: { name: 'club', range: 1 },
+      },
+    },
+    archer: {
+      components: { Weapon: { name: 'bow', range: 6 } },
+    },
+    'goblin-archer': {
+      extends: ['goblin', 'archer'],
+      components: { Health: { current: 3, max: 3 } },
+    },
+    'unarmed-goblin': {
+      extends: 'goblin',
+      components: { Weapon: null },
+    },
+  },
+});
+
+describe('Prefabs', () => {
+  let em: EntityManager;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    em.loadPrefabs(PREFABS(), COMPONENT_TYPES);
+  });
+
+  it('should instantiate a prefab', () => {
+    const goblin = em.instantiate('goblin');
+    expect(goblin.component(Health)).toEqual(
+      new Health({ current: 5, max: 5 })
+    );
+    expect(goblin.component(Weapon)).toEqual(
+      new Weapon({ name: 'club', range: 1 })
+    );
+  });
+
+  it('should inherit from the prefabs that are extended, later ones taking precedence', () => {
+    expect(em.getPrefab('goblin-archer')).toEqual({
+      Health: { current: 3, max: 3 },
+      Weapon: { name: 'bow', range: 6 },
+    });
+  });
+
+  it('should remove components that are overridden with null', () => {
+    expect(em.instantiate('unarmed-goblin').has(Weapon)).toBe(false);
+  });
+
+  it('should apply per instance overrides', () => {
+    const goblin = em.instantiate('goblin-archer', {
+      Position: { x: 2, y: 3 },
+      Health: { current: 1 },
+    });
+    expect(goblin.component(Position)).toEqual(new Position({ x: 2, y: 3 }));
+    expect(goblin.component(Health)).toEqual(
+      new Health({ current: 1, max: 3 })
+    );
+  });
+
+  it('should not share component data between instances', () => {
+    const first = em.instantiate('goblin');
+    em.setComponent(first.id, new Health({ current: 0, max: 5 }));
+    expect(em.instantiate('goblin').component(Health).current).toEqual(5);
+  });
+
+  it('should extend prefabs that were loaded previously', () => {
+    em.loadPrefabs(
+      { prefabs: { 'goblin-chief': { extends: 'goblin', components: {} } } },
+      COMPONENT_TYPES
+    );
+    expect(em.instantiate('goblin-chief').has([Health, Weapon])).toBe(true);
+  });
+
+  it('should reject invalid prefabs without loading any', () => {
+    const load = (prefabs: PrefabData['prefabs']) => () =>
+      em.loadPrefabs({ prefabs }, COMPONENT_TYPES);
+    expect(load({ goblin: { components: {} } })).toThrow();
+    expect(load({ orc: { extends: 'troll', components: {} } })).toThrow();
+    expect(
+      load({
+        a: { extends: 'b', components: {} },
+        b: { extends: 'a', components: {} },
+      })
+    ).toThrow();
+    expect(
+      load({
+        orc: { components: {} },
+        ogre: { components: { Unknown: {} } },
+      })
+    ).toThrow();
+    expect(em.hasPrefab('orc')).toBe(false);
+  });
+
+  it('should fail to instantiate a prefab that does not exist', () => {
+    expect(() => em.instantiate('troll')).toThrow();
+  });
+
+  it('should migrate prefab data from older versions', () => {
+    const migrating = new EntityManager({ version: 2 });
+    migrating.registerMigration(1, 'HP', {
+      rename: 'Health',
+      migrate: (hp: any) => ({ current: hp, max: hp }),
+    });
+    migrating.loadPrefabs(
+      { prefabs: { rat: { components: { HP: 2 } } } },
+      COMPONENT_TYPES
+    );
+    expect(migrating.instantiate('rat').component(Health)).toEqual(
+      new Health({ current: 2, max: 2 })
+    );
+  });
+
+  it('should keep prefabs when cleared', () => {
+    em.clear();
+    expect(em.hasPrefab('goblin')).toBe(true);
+  });
+});
@@ -0,0 +1,169 @@
+import { Component, ComponentConstructor } from './component';
+import { componentFromData, Schema, schemaOf } from './schema';
+import { AnyJson, JsonObject } from './types';
+
+/** A reusable bundle of component data, in the same shape as an entity in exported data */
+export interface PrefabDefinition {
+  /** Names of the prefabs whose components this one starts from, later ones taking precedence */
+  extends?: string | string[];
+  /** Data for each component by name, null removes a component inherited from another prefab */
+  components: { [componentName: string]: AnyJson };
+}
+
+export interface PrefabData {
+  /** Version of the data format, data without a version is treated as version 1 */
+  version?: number;
+  prefabs: { [name: string]: PrefabDefinition };
+}
+
+export type ComponentTypes = { [name: string]: new (...args: any[]) => any };
+
+/** Named prefabs, with inheritance between them resolved to the data for each component
+ *
+ * @see EntityManager.loadPrefabs - Loads prefabs for an entity manager
+ * @see EntityManager.instantiate - Creates an entity from a prefab
+ */
+export class PrefabRegistry {
+  private prefabs = new Map<string, JsonObject>();
+  private componentTypes: ComponentTypes = {};
+
+  /**
+   * @param schemaFor - Gives the schema that component data is checked against, defaults to the one declared by the type
+   */
+  constructor(
+    private schemaFor: (
+      type: ComponentConstructor
+    ) => Schema | undefined = schemaOf
+  ) {}
+
+  /** Add prefabs to the registry
+   *
+   * @param prefabs - The prefabs to add, which can extend each other or previously added prefabs
+   * @param componentTypes - A dictionary of Constructor functions used to instantiate components by name
+   *
+   * @throws {Error} - If a prefab already exists, extends a prefab that doesn't exist or extends itself, or has a
+   *                   component that isn't in the type index. No prefabs are added in that case.
+   */
+  load(
+    prefabs: { [name: string]: PrefabDefinition },
+    componentTypes: ComponentTypes
+  ): void | never {
+    const resolved = new Map<string, JsonObject>();
+    const resolving: string[] = [];
+    const resolve = (name: string): JsonObject => {
+      const existing = this.prefabs.get(name) || resolved.get(name);
+      if (existing) {
+        return existing;
+      }
+      if (!(name in prefabs)) {
+        throw Error(`Prefab: ${name} doesn't exist!`);
+      }
+      if (resolving.indexOf(name) !== -1) {
+        throw Error(
+          `Prefab: ${name} extends itself through: ${resolving.join(', ')}`
+        );
+      }
+      resolving.push(name);
+      const definition = prefabs[name];
+      const bases =
+        definition.extends === undefined
+          ? []
+          : ([] as string[]).concat(definition.extends);
+      const components = bases.reduce(
+        (merged: JsonObject, base) => mergeComponents(merged, resolve(base)),
+        {}
+      );
+      resolving.pop();
+      const prefab = mergeComponents(components, definition.components);
+      resolved.set(name, prefab);
+      return prefab;
+    };
+
+    for (const name of Object.keys(prefabs)) {
+      if (this.prefabs.has(name)) {
+        throw Error(`Prefab with name: ${name} already exists!`);
+      }
+      for (const componentName of Object.keys(resolve(name))) {
+        if (!(componentName in componentTypes)) {
+          throw Error(
+            `Component in prefab: ${name}: ${componentName} is not in type index!`
+          );
+        }
+      }
+    }
+    resolved.forEach((prefab, name) => this.prefabs.set(name, prefab));
+    Object.assign(this.componentTypes, componentTypes);
+  }
+
+  /** Checks whether a prefab with the given name exists */
+  has(name: string): boolean {
+    return this.prefabs.has(name);
+  }
+
+  /** Get the names of all prefabs */
+  names(): string[] {
+    return Array.from(this.prefabs.keys());
+  }
+
+  /** Get the data for each of a prefab's components, including those it inherits
+   *
+   * @throws {Error} - If the prefab doesn't exist
+   */
+  get(name: string): JsonObject | never {
+    const prefab = this.prefabs.get(name);
+    if (!prefab) {
+      throw Error(`Prefab: ${name} doesn't exist!`);
+    }
+    return JSON.parse(JSON.stringify(prefab));
+  }
+
+  /** Create the components for an instance of a prefab
+   *
+   * @param name - Name of the prefab
+   * @param overrides - Data for components that replaces or adds to the prefab's, null removes a component
+   *
+   * @throws {Error} - If the prefab doesn't exist, an override is for a component that isn't in the type index, or
+   *                   a component's data doesn't match its type's schema
+   */
+  components(name: string, overrides: JsonObject = {}): Component[] | never {
+    const data = mergeComponents(this.get(name), overrides);
+    return Object.entries(data).map(([componentName, componentData]) => {
+      if (!(componentName in this.componentTypes)) {
+        throw Error(
+          `Component in overrides: ${componentName} is not in type index!`
+        );
+      }
+      try {
+        const type = this.componentTypes[componentName];
+        return componentFromData(type, componentData, this.schemaFor(type));
+      } catch (e) {
+        throw Error(
+          `Component: ${componentName} in prefab: ${name} is invalid, ${e.message}`
+        );
+      }
+    });
+  }
+}
+
+/** Merge component data, where the fields of object data are merged and anything else is replaced */
+function mergeComponents(
+  base: JsonObject,
+  overrides: { [componentName: string]: AnyJson }
+): JsonObject {
+  const merged: JsonObject = Object.assign({}, base);
+  for (const [name, data] of Object.entries(overrides)) {
+    const existing = merged[name];
+    if (data === null) {
+      delete merged[name];
+    } else if (isObject(existing) && isObject(data)) {
+      merged[name] = Object.assign({}, existing, data);
+    } else {
+      merged[name] = data;
+    }
+  }
+  return merged;
+}
+
+function isObject(data: AnyJson | undefined): data is JsonObject {
+  return typeof data === 'object' && data !== null && !Array.isArray(data);
+}
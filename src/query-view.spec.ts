@@ -0,0 +1,98 @@
+import { Component } from './component';
+import { Entity } from './entity';
+import { EntityId, EntityManager } from './entity-manager';
+import { QueryView } from './query-view';
+import { MoveTo, Position, Renderable } from './dummy-components.model';
+
+class Dead extends Component {}
+
+describe('QueryView', () => {
+  let em: EntityManager;
+  let view: QueryView<[Position], []>;
+  let entered: EntityId[];
+  let exited: EntityId[];
+  let existingId: EntityId;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    existingId = em.create(new Position({ x: 1, y: 1 })).id;
+    em.create(new Renderable('not matching', 1));
+    view = em.view(em.query().with(Position).without(Dead));
+    entered = [];
+    exited = [];
+    view.entered$.subscribe((e: Entity) => entered.push(e.id));
+    view.exited$.subscribe((id: EntityId) => exited.push(id));
+  });
+
+  it('should contain the entities matching at registration', () => {
+    expect(view.ids()).toEqual([existingId]);
+    expect(view.count()).toEqual(1);
+  });
+
+  it('should add entities that are created matching', () => {
+    const id = em.create(new Position({ x: 2, y: 2 })).id;
+    expect(view.has(id)).toBe(true);
+    expect(entered).toEqual([id]);
+  });
+
+  it('should add entities when a required component is added', () => {
+    const id = em.create().id;
+    em.setComponent(id, new Position({ x: 2, y: 2 }));
+    expect(view.has(id)).toBe(true);
+    expect(entered).toEqual([id]);
+  });
+
+  it('should remove entities when an excluded component is added', () => {
+    em.setComponent(existingId, new Dead());
+    expect(view.has(existingId)).toBe(false);
+    expect(exited).toEqual([existingId]);
+    em.removeComponent(existingId, Dead);
+    expect(view.has(existingId)).toBe(true);
+    expect(entered).toEqual([existingId]);
+  });
+
+  it('should remove entities that are removed', () => {
+    em.remove(existingId);
+    expect(view.count()).toEqual(0);
+    expect(exited).toEqual([existingId]);
+  });
+
+  it('should not report changes when a matching component is replaced', () => {
+    em.setComponent(existingId, new Position({ x: 5, y: 5 }));
+    expect(view.has(existingId)).toBe(true);
+    expect(entered).toEqual([]);
+    expect(exited).toEqual([]);
+  });
+
+  it('should not re-evaluate for unrelated component types', () => {
+    expect(view.dependsOn(MoveTo)).toBe(false);
+    em.setComponent(existingId, new MoveTo({ x: 1, y: 1 }));
+    expect(entered).toEqual([]);
+  });
+
+  it('should provide typed results', () => {
+    let count = 0;
+    view.each((e, [p]) => {
+      ++count;
+      expect(p.x).toEqual(1);
+    });
+    expect(count).toEqual(1);
+    expect(view.results()[0][1][0]).toEqual(new Position({ x: 1, y: 1 }));
+  });
+
+  it('should empty on clear and refill on import', () => {
+    const data = em.export();
+    em.clear();
+    expect(view.count()).toEqual(0);
+    expect(exited).toEqual([existingId]);
+    em.import(data, { Position, Renderable });
+    expect(view.ids()).toEqual([existingId]);
+  });
+
+  it('should stop updating once disposed', () => {
+    view.dispose();
+    em.create(new Position({ x: 2, y: 2 }));
+    expect(view.count()).toEqual(0);
+    expect(entered).toEqual([]);
+  });
+});
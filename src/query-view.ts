@@ -0,0 +1,147 @@
+import { Observable, Subject } from 'rxjs';
+import { Component, ComponentConstructor } from './component';
+import { Entity } from './entity';
+import { EntityId, EntityManager } from './entity-manager';
+import { Parent } from './hierarchy';
+import { OptionalComponents, Query, QueryResult } from './query';
+
+/** Persistent result set of a query that is kept up to date as entities change
+ *
+ * Membership is only re-evaluated for an entity when it's created, removed, or has a component added or removed that
+ * the query depends on, so iterating a view doesn't have to search for matching entities.
+ *
+ * @see EntityManager.view - Registers a view for a query
+ */
+export class QueryView<R extends Component[] = [], O extends Component[] = []> {
+  private members = new Set<EntityId>();
+  private entered = new Subject<Entity>();
+  private exited = new Subject<EntityId>();
+  private changed = new Subject<Entity>();
+
+  constructor(
+    private em: EntityManager,
+    readonly query: Query<R, O>,
+    private onDispose: (view: QueryView<R, O>) => void
+  ) {
+    for (const id of query.ids()) {
+      this.members.add(id);
+    }
+  }
+
+  /** Emits entities as they start matching the query */
+  get entered$(): Observable<Entity> {
+    return this.entered;
+  }
+
+  /** Emits the IDs of entities as they stop matching the query, including when they're removed */
+  get exited$(): Observable<EntityId> {
+    return this.exited;
+  }
+
+  /** Emits entities in the view when one of their required or optional components is replaced with a new value */
+  get changed$(): Observable<Entity> {
+    return this.changed;
+  }
+
+  /** Checks whether the view's membership can be affected by a change to the given component type
+   */
+  dependsOn(type: ComponentConstructor): boolean {
+    return (
+      this.query.requiredTypes.indexOf(type) !== -1 ||
+      this.query.excludedTypes.indexOf(type) !== -1 ||
+      this.query.anyOfGroups.some((group) => group.indexOf(type) !== -1) ||
+      (type === Parent && this.query.parentTypes.length !== 0) ||
+      this.query.relationPairs.some(([relation]) => relation === type)
+    );
+  }
+
+  /** Checks whether the view's membership can be affected by a change to the given component type on a parent entity
+   */
+  dependsOnParent(type: ComponentConstructor): boolean {
+    return this.query.parentTypes.indexOf(type) !== -1;
+  }
+
+  /** Re-evaluate whether an entity is a member of the view
+   *
+   * @param id - Id of the entity that changed
+   * @param entity - Current state of the entity, undefined if it has been removed
+   */
+  refresh(id: EntityId, entity: Entity | undefined): void {
+    const matches = entity !== undefined && this.query.matches(entity);
+    if (matches && !this.members.has(id)) {
+      this.members.add(id);
+      this.entered.next(entity);
+    } else if (!matches && this.members.has(id)) {
+      this.members.delete(id);
+      this.exited.next(id);
+    }
+  }
+
+  /** Signal that a component of an entity was replaced with a new value, if the entity is a member and the query
+   * selects the component's type
+   *
+   * @param id - Id of the entity that changed
+   * @param type - Type of the component that was replaced
+   */
+  update(id: EntityId, type: ComponentConstructor): void {
+    if (
+      this.members.has(id) &&
+      (this.query.requiredTypes.indexOf(type) !== -1 ||
+        this.query.optionalTypes.indexOf(type) !== -1)
+    ) {
+      this.changed.next(this.em.get(id));
+    }
+  }
+
+  /** Checks whether an entity is currently a member of the view
+   */
+  has(id: EntityId): boolean {
+    return this.members.has(id);
+  }
+
+  /** Get the number of entities currently in the view
+   */
+  count(): number {
+    return this.members.size;
+  }
+
+  /** Gets the IDs of all entities in the view
+   */
+  ids(): EntityId[] {
+    return Array.from(this.members);
+  }
+
+  /** Gets all entities in the view
+   */
+  entities(): Entity[] {
+    return this.ids().map((id) => this.em.get(id));
+  }
+
+  /** Gets all entities in the view with their required and optional components
+   */
+  results(): QueryResult<R, O>[] {
+    return this.ids().map((id) => this.query.select(this.em.get(id)));
+  }
+
+  /** Execute the callback on all entities in the view
+   *
+   * @param callback - Receives the entity, a tuple of its required components and a tuple of its optional components
+   */
+  each(
+    callback: (e: Entity, required: R, optional: OptionalComponents<O>) => void
+  ): void {
+    for (const id of this.ids()) {
+      callback(...this.query.select(this.em.get(id)));
+    }
+  }
+
+  /** Stop maintaining the view, it will no longer receive updates and its streams complete
+   */
+  dispose(): void {
+    this.onDispose(this);
+    this.members.clear();
+    this.entered.complete();
+    this.exited.complete();
+    this.changed.complete();
+  }
+}
@@ -0,0 +1,108 @@
+import { Component } from './component';
+import { Entity } from './entity';
+import { EntityId, EntityManager } from './entity-manager';
+import {
+  MoveTo,
+  Physical,
+  Position,
+  Renderable,
+  Size,
+} from './dummy-components.model';
+
+class Dead extends Component {}
+
+describe('Query', () => {
+  let em: EntityManager;
+  let moving: EntityId, still: EntityId, dead: EntityId, invisible: EntityId;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    moving = em.create(
+      new Position({ x: 1, y: 1 }),
+      new Renderable('moving', 1),
+      new MoveTo({ x: 1, y: 0 })
+    ).id;
+    still = em.create(
+      new Position({ x: 2, y: 2 }),
+      new Renderable('still', 1),
+      new Physical(Size.FILL)
+    ).id;
+    dead = em.create(
+      new Position({ x: 3, y: 3 }),
+      new Renderable('dead', 1),
+      new Dead()
+    ).id;
+    invisible = em.create(new Position({ x: 4, y: 4 })).id;
+  });
+
+  it('should match entities with all required types', () => {
+    const ids = em.query().with(Position, Renderable).ids();
+    expect(ids.sort()).toEqual([moving, still, dead].sort());
+  });
+
+  it('should exclude entities with excluded types', () => {
+    const ids = em.query().with(Position, Renderable).without(Dead).ids();
+    expect(ids.sort()).toEqual([moving, still].sort());
+  });
+
+  it('should match entities with any type from a group', () => {
+    const ids = em.query().anyOf(MoveTo, Physical).ids();
+    expect(ids.sort()).toEqual([moving, still].sort());
+  });
+
+  it('should require every any of group to be satisfied', () => {
+    const ids = em
+      .query()
+      .with(Position)
+      .anyOf(MoveTo, Physical)
+      .anyOf(Dead, Physical)
+      .ids();
+    expect(ids).toEqual([still]);
+  });
+
+  it('should match every entity when no types are specified', () => {
+    expect(em.query().ids().length).toEqual(4);
+    expect(em.query().without(Renderable).ids()).toEqual([invisible]);
+  });
+
+  it('should not modify the query it is refined from', () => {
+    const base = em.query().with(Position);
+    base.without(Renderable);
+    expect(base.ids().length).toEqual(4);
+  });
+
+  it('should provide required and optional components in results', () => {
+    const results = em
+      .query()
+      .with(Position, Renderable)
+      .optional(MoveTo)
+      .without(Dead)
+      .results();
+    const byId = new Map(results.map((r) => [r[0].id, r] as [EntityId, any]));
+    const [, [p, r], [m]] = byId.get(moving);
+    expect(p.x).toEqual(1);
+    expect(r.image).toEqual('moving');
+    expect(m.direction).toEqual({ x: 1, y: 0 });
+    const [, , [missing]] = byId.get(still);
+    expect(missing).toBeUndefined();
+  });
+
+  it('should check whether an entity matches', () => {
+    const query = em.query().with(Position).without(Dead);
+    expect(query.matches(em.get(moving))).toBe(true);
+    expect(query.matches(em.get(dead))).toBe(false);
+  });
+
+  it('should be consumed by each on the entity manager', () => {
+    const images: string[] = [];
+    let withMoveTo = 0;
+    em.each((e: Entity, [p, r], [m]) => {
+      images.push(r.image);
+      if (m) {
+        ++withMoveTo;
+      }
+    }, em.query().with(Position, Renderable).optional(MoveTo).without(Dead));
+    expect(images.sort()).toEqual(['moving', 'still']);
+    expect(withMoveTo).toEqual(1);
+  });
+});
@@ -0,0 +1,219 @@
+import { Component, ComponentConstructor } from './component';
+import { Entity } from './entity';
+import { EntityId, EntityManager } from './entity-manager';
+import { Parent } from './hierarchy';
+import { Relation, RelationConstructor } from './relation';
+import { CtorsOf } from './types';
+
+/** Components of optional types, undefined where the entity doesn't have one */
+export type OptionalComponents<T> = { [K in keyof T]: T[K] | undefined };
+
+/** An entity that matches a query alongside its required and optional components */
+export type QueryResult<R extends Component[], O extends Component[]> = [
+  Entity,
+  R,
+  OptionalComponents<O>
+];
+
+/** Composable description of the entities to match based on their component types
+ *
+ * Queries are immutable, each builder method returns a new query so that a base query can be shared and refined.
+ *
+ * @see EntityManager.query - Creates an empty query for an entity manager
+ */
+export class Query<R extends Component[] = [], O extends Component[] = []> {
+  constructor(
+    private em: EntityManager,
+    readonly requiredTypes: ComponentConstructor[] = [],
+    readonly optionalTypes: ComponentConstructor[] = [],
+    readonly excludedTypes: ComponentConstructor[] = [],
+    readonly anyOfGroups: ComponentConstructor[][] = [],
+    readonly parentTypes: ComponentConstructor[] = [],
+    readonly relationPairs: [RelationConstructor, EntityId | undefined][] = []
+  ) {}
+
+  /** Require matching entities to have all of the given component types
+   *
+   * @note - Replaces any previously required types, as these determine the typed components in each result
+   */
+  with<T extends Component[]>(...types: CtorsOf<T>): Query<T, O> {
+    return new Query<T, O>(
+      this.em,
+      types as ComponentConstructor[],
+      this.optionalTypes,
+      this.excludedTypes,
+      this.anyOfGroups,
+      this.parentTypes,
+      this.relationPairs
+    );
+  }
+
+  /** Include the given component types in results when an entity has them, without requiring them
+   *
+   * @note - Replaces any previously optional types, as these determine the typed components in each result
+   */
+  optional<T extends Component[]>(...types: CtorsOf<T>): Query<R, T> {
+    return new Query<R, T>(
+      this.em,
+      this.requiredTypes,
+      types as ComponentConstructor[],
+      this.excludedTypes,
+      this.anyOfGroups,
+      this.parentTypes,
+      this.relationPairs
+    );
+  }
+
+  /** Exclude entities that have any of the given component types
+   */
+  without(...types: ComponentConstructor[]): Query<R, O> {
+    return new Query<R, O>(
+      this.em,
+      this.requiredTypes,
+      this.optionalTypes,
+      [...this.excludedTypes, ...types],
+      this.anyOfGroups,
+      this.parentTypes,
+      this.relationPairs
+    );
+  }
+
+  /** Require matching entities to have at least one of the given component types
+   *
+   * @note - Each call adds a separate group, all groups must be satisfied
+   */
+  anyOf(...types: ComponentConstructor[]): Query<R, O> {
+    return new Query<R, O>(
+      this.em,
+      this.requiredTypes,
+      this.optionalTypes,
+      this.excludedTypes,
+      [...this.anyOfGroups, types],
+      this.parentTypes,
+      this.relationPairs
+    );
+  }
+
+  /** Require matching entities to have a parent that has all of the given component types
+   */
+  withParent(...types: ComponentConstructor[]): Query<R, O> {
+    return new Query<R, O>(
+      this.em,
+      this.requiredTypes,
+      this.optionalTypes,
+      this.excludedTypes,
+      this.anyOfGroups,
+      [...this.parentTypes, ...types],
+      this.relationPairs
+    );
+  }
+
+  /** Require matching entities to have a relation of the given type, to a specific target if one is given
+   */
+  relatedTo(type: RelationConstructor, target?: EntityId): Query<R, O> {
+    return new Query<R, O>(
+      this.em,
+      this.requiredTypes,
+      this.optionalTypes,
+      this.excludedTypes,
+      this.anyOfGroups,
+      this.parentTypes,
+      [...this.relationPairs, [type, target]]
+    );
+  }
+
+  /** Checks whether an entity satisfies the query
+   */
+  matches(entity: Entity): boolean {
+    return (
+      entity.has(this.requiredTypes) &&
+      !this.excludedTypes.some((type) => entity.has(type)) &&
+      this.anyOfGroups.every((group) =>
+        group.some((type) => entity.has(type))
+      ) &&
+      this.parentMatches(entity) &&
+      this.relationPairs.every(
+        ([type, target]) =>
+          entity.has(type) &&
+          (target === undefined ||
+            (entity.component(type) as Relation).targets.indexOf(target) !== -1)
+      )
+    );
+  }
+
+  /** Gets the IDs of all entities that satisfy the query
+   */
+  ids(): EntityId[] {
+    return this.candidates().filter((id) => this.matches(this.em.get(id)));
+  }
+
+  /** Gets all entities that satisfy the query
+   */
+  entities(): Entity[] {
+    return this.ids().map((id) => this.em.get(id));
+  }
+
+  /** Gets all entities that satisfy the query with their required and optional components
+   */
+  results(): QueryResult<R, O>[] {
+    return this.ids().map((id) => this.select(this.em.get(id)));
+  }
+
+  /** Execute the callback on all entities that satisfy the query
+   *
+   * @param callback - Receives the entity, a tuple of its required components and a tuple of its optional components
+   */
+  each(
+    callback: (e: Entity, required: R, optional: OptionalComponents<O>) => void
+  ): void {
+    for (const id of this.ids()) {
+      callback(...this.select(this.em.get(id)));
+    }
+  }
+
+  /** Pick out the required and optional components for the query from an entity
+   */
+  select(entity: Entity): QueryResult<R, O> {
+    return [
+      entity,
+      this.requiredTypes.map((type) => entity.component(type)) as R,
+      this.optionalTypes.map((type) =>
+        entity.has(type) ? entity.component(type) : undefined
+      ) as OptionalComponents<O>,
+    ];
+  }
+
+  private parentMatches(entity: Entity): boolean {
+    if (this.parentTypes.length === 0) {
+      return true;
+    }
+    if (!entity.has(Parent)) {
+      return false;
+    }
+    const parentId = entity.component(Parent).id;
+    return (
+      this.em.exists(parentId) && this.em.get(parentId).has(this.parentTypes)
+    );
+  }
+
+  private candidates(): EntityId[] {
+    const targeted = this.relationPairs.find(
+      ([, target]) => target !== undefined
+    );
+    if (this.requiredTypes.length !== 0) {
+      return this.em.matchingIds(...this.requiredTypes);
+    } else if (targeted) {
+      return this.em.sources(targeted[0], targeted[1]!);
+    } else if (this.relationPairs.length !== 0) {
+      return this.em.matchingIds(this.relationPairs[0][0]);
+    } else if (this.anyOfGroups.length !== 0) {
+      const ids = new Set<EntityId>();
+      for (const type of this.anyOfGroups[0]) {
+        this.em.matchingIds(type).forEach((id) => ids.add(id));
+      }
+      return Array.from(ids);
+    } else {
+      return this.em.ids();
+    }
+  }
+}
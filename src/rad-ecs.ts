@@ -1,4 +1,24 @@
-
 export * from './entity';
 export * from './entity-manager';
-export * from './component';
\ No newline at end of file
+export * from './component';
+export * from './system';
+export * from './scheduler';
+export * from './query';
+export * from './query-view';
+export * from './storage';
+export * from './transaction';
+export * from './command-buffer';
+export * from './mutation';
+export * from './history';
+export * from './migration';
+export * from './hierarchy';
+export * from './relation';
+export * from './prefab';
+export * from './entity-id';
+export * from './schema';
+export * from './component-registry';
+export * from './binary';
+export * from './range-index';
+export * from './spatial-index';
+export * from './value-index';
+export * from './change-journal';
\ No newline at end of file
@@ -0,0 +1,100 @@
+import { Component, EntityId, EntityManager } from './entity-manager';
+import { RangeBounds, RangeIndex } from './range-index';
+
+class Health extends Component {
+  constructor(public current: number) {
+    super();
+  }
+}
+
+describe('RangeIndex', () => {
+  let index: RangeIndex;
+
+  beforeEach(() => {
+    index = new RangeIndex();
+    [5, 1, 10, 5, 7].forEach((key, id) => index.add(key, id));
+  });
+
+  it('should find the ids with keys in a range, in order of key', () => {
+    expect(index.get({})).toEqual([1, 0, 3, 4, 2]);
+    expect(index.get({ lt: 7 })).toEqual([1, 0, 3]);
+    expect(index.get({ lte: 7 })).toEqual([1, 0, 3, 4]);
+    expect(index.get({ gt: 5 })).toEqual([4, 2]);
+    expect(index.get({ gte: 5, lt: 10 })).toEqual([0, 3, 4]);
+    expect(index.get({ gt: 7, lt: 5 })).toEqual([]);
+  });
+
+  it('should remove an id with the key it was added with', () => {
+    expect(index.remove(3)).toBe(true);
+    expect(index.remove(3)).toBe(false);
+    expect(index.get({ gte: 5, lte: 5 })).toEqual([0]);
+    expect(index.count()).toEqual(4);
+  });
+
+  it('should replace the key of an id that is added again', () => {
+    index.add(6, 1);
+    expect(index.get({ lt: 5 })).toEqual([]);
+    expect(index.get({ gte: 6, lt: 7 })).toEqual([1]);
+    expect(index.count()).toEqual(5);
+  });
+
+  it('should reject bounds that are not numbers', () => {
+    expect(() => index.get({ lt: '10' as any })).toThrow(
+      'Range bound: lt should be a number but is: 10'
+    );
+  });
+});
+
+describe('Range indexes', () => {
+  let em: EntityManager;
+  let ids: EntityId[];
+
+  const idsInRange = (bounds: RangeBounds) =>
+    em.inRange(Health, bounds).map((entity) => entity.id);
+
+  beforeEach(() => {
+    em = new EntityManager();
+    ids = [12, 3, 8].map((hp) => em.create(new Health(hp)).id);
+    em.indexRange(Health, (health) => health.current);
+  });
+
+  it('should find the entities with components in a range', () => {
+    expect(idsInRange({ lt: 10 })).toEqual([ids[1], ids[2]]);
+  });
+
+  it('should be kept up to date as components change', () => {
+    em.setComponent(ids[0], new Health(1));
+    em.removeComponent(ids[1], Health);
+    em.remove(ids[2]);
+    const created = em.create(new Health(9)).id;
+    expect(idsInRange({ lt: 10 })).toEqual([ids[0], created]);
+  });
+
+  it('should remove an entity whose component was changed in place', () => {
+    em.get(ids[1]).component(Health).current = 20;
+    em.removeComponent(ids[1], Health);
+    expect(idsInRange({})).toEqual([ids[2], ids[0]]);
+  });
+
+  it('should be kept when cleared', () => {
+    em.clear();
+    const id = em.create(new Health(1)).id;
+    expect(idsInRange({})).toEqual([id]);
+  });
+
+  it('should reject components whose key is not a number', () => {
+    expect(() => em.create(new Health(NaN))).toThrow(
+      'has a range key: NaN, which is not a number!'
+    );
+    expect(() => em.setComponent(ids[0], new Health('1' as any))).toThrow(
+      `Component: Health on entity: ${ids[0]} has a range key: 1, which is not a number!`
+    );
+    expect(idsInRange({})).toEqual([ids[1], ids[2], ids[0]]);
+  });
+
+  it('should not allow searching a type that is not indexed by range', () => {
+    expect(() => em.inRange(Component, {})).toThrow(
+      'Component type: Component is not set up for range indexing!'
+    );
+  });
+});
@@ -0,0 +1,104 @@
+import { EntityId } from './entity-manager';
+
+/** Bounds of a range of keys, any of which can be left out to leave that end of the range open
+ *
+ * @example
+ * { lt: 10 } // below 10
+ * { gte: 1, lte: 5 } // from 1 to 5 inclusive
+ */
+export interface RangeBounds {
+  gt?: number;
+  gte?: number;
+  lt?: number;
+  lte?: number;
+}
+
+/** Entities kept in order of a numeric key, so that those with keys in a range can be found without a search
+ *
+ * @see EntityManager.indexRange - Sets up a range index for a component type
+ */
+export class RangeIndex {
+  private entries: { key: number; id: EntityId }[] = [];
+  private keys = new Map<EntityId, number>();
+
+  /** Index an entity by a key, replacing the key it had */
+  add(key: number, id: EntityId): void {
+    this.remove(id);
+    this.entries.splice(this.position(key, id), 0, { key, id });
+    this.keys.set(id, key);
+  }
+
+  /** Remove an entity by the key it was indexed with, which is kept in case its component has since changed */
+  remove(id: EntityId): boolean {
+    const key = this.keys.get(id);
+    if (key === undefined) {
+      return false;
+    }
+    this.entries.splice(this.position(key, id), 1);
+    this.keys.delete(id);
+    return true;
+  }
+
+  /** Get the entities with keys in a range, in order of key
+   *
+   * @throws {Error} - If a bound isn't a number
+   */
+  get(bounds: RangeBounds): EntityId[] | never {
+    for (const [name, bound] of Object.entries(bounds)) {
+      if (bound !== undefined && typeof bound !== 'number') {
+        throw Error(`Range bound: ${name} should be a number but is: ${bound}`);
+      }
+    }
+    let start = 0;
+    if (bounds.gte !== undefined) {
+      start = this.lowerBound(bounds.gte);
+    }
+    if (bounds.gt !== undefined) {
+      start = Math.max(start, this.upperBound(bounds.gt));
+    }
+    let end = this.entries.length;
+    if (bounds.lte !== undefined) {
+      end = this.upperBound(bounds.lte);
+    }
+    if (bounds.lt !== undefined) {
+      end = Math.min(end, this.lowerBound(bounds.lt));
+    }
+    return this.entries.slice(start, Math.max(start, end)).map((e) => e.id);
+  }
+
+  count(): number {
+    return this.entries.length;
+  }
+
+  /** Position of the first entry with a key not less than the one given */
+  private lowerBound(key: number): number {
+    return this.search((entry) => entry.key < key);
+  }
+
+  /** Position of the first entry with a key greater than the one given */
+  private upperBound(key: number): number {
+    return this.search((entry) => entry.key <= key);
+  }
+
+  /** Position of an entry, ordered by key then id */
+  private position(key: number, id: EntityId): number {
+    return this.search(
+      (entry) => entry.key < key || (entry.key === key && entry.id < id)
+    );
+  }
+
+  /** Position of the first entry that isn't before the one being looked for */
+  private search(before: (entry: { key: number; id: EntityId }) => boolean) {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (before(this.entries[middle])) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
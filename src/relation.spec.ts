@@ -0,0 +1,102 @@
+import { EntityId, EntityManager } from './entity-manager';
+import { Relation } from './relation';
+import { Position } from './dummy-components.model';
+
+class Targets extends Relation {}
+class Likes extends Relation {}
+
+describe('Relations', () => {
+  let em: EntityManager;
+  let archer: EntityId;
+  let knight: EntityId;
+  let dragon: EntityId;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    archer = em.create(new Position({ x: 0, y: 0 })).id;
+    knight = em.create(new Position({ x: 1, y: 1 })).id;
+    dragon = em.create().id;
+    em.relate(archer, Targets, dragon);
+    em.relate(knight, Targets, dragon);
+    em.relate(archer, Likes, knight);
+    em.relate(archer, Likes, dragon);
+  });
+
+  it('should give the targets of a relation', () => {
+    expect(em.targets(archer, Likes)).toEqual([knight, dragon]);
+    expect(em.targets(dragon, Likes)).toEqual([]);
+    expect(em.get(archer).component(Targets)).toEqual(
+      new Targets({ targets: [dragon] })
+    );
+  });
+
+  it('should give the sources of a relation to a target', () => {
+    expect(em.sources(Targets, dragon)).toEqual([archer, knight]);
+    expect(em.sources(Likes, dragon)).toEqual([archer]);
+    expect(em.sources(Likes, archer)).toEqual([]);
+  });
+
+  it('should not add the same pair twice', () => {
+    em.relate(archer, Likes, knight);
+    expect(em.targets(archer, Likes)).toEqual([knight, dragon]);
+  });
+
+  it('should remove pairs', () => {
+    expect(em.unrelate(archer, Likes, knight)).toBe(true);
+    expect(em.unrelate(archer, Likes, knight)).toBe(false);
+    expect(em.sources(Likes, knight)).toEqual([]);
+    em.unrelate(archer, Likes, dragon);
+    expect(em.hasComponent(archer, Likes)).toBe(false);
+  });
+
+  it('should not relate entities that do not exist', () => {
+    expect(() => em.relate(archer, Likes, 9999999)).toThrow();
+  });
+
+  it('should remove relations to a target when it is removed', () => {
+    em.remove(dragon);
+    expect(em.hasComponent(knight, Targets)).toBe(false);
+    expect(em.targets(archer, Likes)).toEqual([knight]);
+    expect(em.sources(Targets, dragon)).toEqual([]);
+  });
+
+  it('should remove the reverse index entries of a source when it is removed', () => {
+    em.remove(archer);
+    expect(em.sources(Targets, dragon)).toEqual([knight]);
+    expect(em.sources(Likes, knight)).toEqual([]);
+  });
+
+  it('should undo the cleanup of relations along with the removal', () => {
+    const history = em.history();
+    em.remove(dragon);
+    history.undo();
+    expect(em.sources(Targets, dragon).sort()).toEqual([archer, knight]);
+    expect(em.targets(archer, Likes)).toEqual([knight, dragon]);
+  });
+
+  it('should be queryable by relation type and target', () => {
+    expect(em.query().relatedTo(Targets, dragon).ids()).toEqual([
+      archer,
+      knight,
+    ]);
+    expect(em.query().relatedTo(Likes).ids()).toEqual([archer]);
+    expect(em.query().with(Position).relatedTo(Likes, knight).ids()).toEqual([
+      archer,
+    ]);
+  });
+
+  it('should keep views of relations up to date', () => {
+    const view = em.view(em.query().relatedTo(Likes, knight));
+    expect(view.ids()).toEqual([archer]);
+    em.relate(dragon, Likes, knight);
+    expect(view.ids()).toEqual([archer, dragon]);
+    em.unrelate(archer, Likes, knight);
+    expect(view.ids()).toEqual([dragon]);
+  });
+
+  it('should roundtrip through export and import', () => {
+    const imported = new EntityManager();
+    imported.import(em.export(), { Position, Targets, Likes });
+    expect(imported.sources(Targets, dragon)).toEqual([archer, knight]);
+  });
+});
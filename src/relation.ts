@@ -0,0 +1,40 @@
+import { Component } from './component';
+import { EntityId } from './entity-manager';
+
+/** Base for components that relate an entity to any number of target entities e.g. Targets, Likes, OwnedBy
+ *
+ * Each subclass is a relation type, and an entity has a (relation type, target) pair for each of its targets. Entity
+ * managers keep a reverse index of relations, so the entities that relate to a target can be found without a search.
+ *
+ * @see EntityManager.relate - Adds a pair to an entity
+ */
+export class Relation extends Component {
+  readonly targets: EntityId[];
+
+  constructor({ targets }: { targets: EntityId[] } = { targets: [] }) {
+    super();
+    this.targets = targets.slice();
+  }
+
+  hash(): string {
+    return this.targets.join(',');
+  }
+
+  remapEntities(
+    remap: (id: EntityId) => EntityId | undefined
+  ): Relation | undefined {
+    const targets = this.targets
+      .map(remap)
+      .filter((id): id is EntityId => id !== undefined);
+    if (targets.length === 0) {
+      return undefined;
+    }
+    const relation = this.clone() as Relation;
+    (relation as { targets: EntityId[] }).targets = targets;
+    return relation;
+  }
+}
+
+export type RelationConstructor<T extends Relation = Relation> = new (data: {
+  targets: EntityId[];
+}) => T;
@@ -0,0 +1,254 @@
+import { Component } from './component';
+import { Entity } from './entity';
+import { EntityId, EntityManager } from './entity-manager';
+import { Scheduler } from './scheduler';
+import { System, SystemContext } from './system';
+import { MoveTo, Position } from './dummy-components.model';
+
+class Recorder extends System {
+  constructor(private log: string[], private name: string) {
+    super();
+  }
+
+  update(ctx: SystemContext) {
+    this.log.push(this.name);
+  }
+}
+
+class Arrived extends Component {}
+
+class Arrival extends System<[MoveTo]> {
+  constructor() {
+    super(MoveTo);
+  }
+
+  process({ commands }: SystemContext, e: Entity, m: MoveTo) {
+    commands.removeComponent(e.id, MoveTo);
+    commands.setComponent(e.id, new Arrived());
+  }
+}
+
+class Counter extends System<[Arrived]> {
+  counts: number[] = [];
+
+  constructor() {
+    super(Arrived);
+  }
+
+  update(ctx: SystemContext) {
+    this.counts.push(ctx.em.matchingIds(Arrived).length);
+  }
+}
+
+class Movement extends System<[Position, MoveTo]> {
+  constructor() {
+    super(Position, MoveTo);
+  }
+
+  process({ em, dt }: SystemContext, e: Entity, p: Position, m: MoveTo) {
+    em.setComponent(
+      e.id,
+      new Position({ x: p.x + m.direction.x * dt, y: p.y + m.direction.y * dt })
+    );
+  }
+}
+
+describe('Scheduler', () => {
+  let em: EntityManager;
+  let scheduler: Scheduler;
+  let log: string[];
+
+  beforeEach(() => {
+    em = new EntityManager();
+    scheduler = new Scheduler(em);
+    log = [];
+  });
+
+  it('should run systems phase by phase', () => {
+    scheduler.add('draw', new Recorder(log, 'draw'), { phase: 'render' });
+    scheduler.add('physics', new Recorder(log, 'physics'), {
+      phase: 'simulation',
+    });
+    scheduler.add('keys', new Recorder(log, 'keys'), { phase: 'input' });
+    scheduler.tick(1);
+    expect(log).toEqual(['keys', 'physics', 'draw']);
+  });
+
+  it('should run systems in a phase in registration order by default', () => {
+    scheduler.add('a', new Recorder(log, 'a'), { phase: 'simulation' });
+    scheduler.add('b', new Recorder(log, 'b'), { phase: 'simulation' });
+    scheduler.add('c', new Recorder(log, 'c'), { phase: 'simulation' });
+    expect(scheduler.order()).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should honour before and after constraints', () => {
+    scheduler.add('a', new Recorder(log, 'a'), {
+      phase: 'simulation',
+      after: ['c'],
+    });
+    scheduler.add('b', new Recorder(log, 'b'), {
+      phase: 'simulation',
+      before: ['c'],
+    });
+    scheduler.add('c', new Recorder(log, 'c'), { phase: 'simulation' });
+    scheduler.tick(1);
+    expect(log).toEqual(['b', 'c', 'a']);
+  });
+
+  it('should throw on constraints on systems that are not registered', () => {
+    scheduler.add('a', new Recorder(log, 'a'), {
+      phase: 'simulation',
+      after: ['not-registered'],
+    });
+    expect(() => scheduler.order('simulation')).toThrow(
+      "System: a must run after: not-registered, which doesn't exist!"
+    );
+    scheduler.add('not-registered', new Recorder(log, 'b'), {
+      phase: 'simulation',
+    });
+    expect(scheduler.order('simulation')).toEqual(['not-registered', 'a']);
+    scheduler.add('c', new Recorder(log, 'c'), {
+      phase: 'render',
+      before: ['typo'],
+    });
+    expect(() => scheduler.tick(1)).toThrow(
+      "System: c must run before: typo, which doesn't exist!"
+    );
+  });
+
+  it('should throw on circular constraints', () => {
+    scheduler.add('a', new Recorder(log, 'a'), {
+      phase: 'simulation',
+      before: ['b'],
+    });
+    scheduler.add('b', new Recorder(log, 'b'), {
+      phase: 'simulation',
+      before: ['a'],
+    });
+    expect(() => scheduler.tick(1)).toThrow();
+  });
+
+  it('should throw on constraints that contradict phase order', () => {
+    scheduler.add('a', new Recorder(log, 'a'), { phase: 'input' });
+    scheduler.add('b', new Recorder(log, 'b'), {
+      phase: 'render',
+      before: ['a'],
+    });
+    expect(() => scheduler.tick(1)).toThrow();
+  });
+
+  it('should throw when adding a system to a phase that does not exist', () => {
+    expect(() =>
+      scheduler.add('a', new Recorder(log, 'a'), { phase: 'nope' })
+    ).toThrow();
+  });
+
+  it('should throw when adding a system with a name that already exists', () => {
+    scheduler.add('a', new Recorder(log, 'a'), { phase: 'input' });
+    expect(() =>
+      scheduler.add('a', new Recorder(log, 'a'), { phase: 'input' })
+    ).toThrow();
+  });
+
+  it('should enable and disable systems at runtime', () => {
+    scheduler.add('a', new Recorder(log, 'a'), { phase: 'input' });
+    scheduler.add('b', new Recorder(log, 'b'), {
+      phase: 'input',
+      enabled: false,
+    });
+    scheduler.tick(1);
+    expect(log).toEqual(['a']);
+    scheduler.enable('b');
+    scheduler.disable('a');
+    expect(scheduler.isEnabled('a')).toBe(false);
+    scheduler.tick(1);
+    expect(log).toEqual(['a', 'b']);
+    expect(() => scheduler.disable('not-registered')).toThrow();
+  });
+
+  it('should stop running a removed system', () => {
+    scheduler.add('a', new Recorder(log, 'a'), { phase: 'input' });
+    expect(scheduler.remove('a')).toBe(true);
+    scheduler.tick(1);
+    expect(log).toEqual([]);
+    expect(scheduler.has('a')).toBe(false);
+  });
+
+  it('should not remove a system named in the constraints of another', () => {
+    scheduler.add('a', new Recorder(log, 'a'), { phase: 'input' });
+    scheduler.add('b', new Recorder(log, 'b'), {
+      phase: 'input',
+      after: ['a'],
+    });
+    scheduler.add('c', new Recorder(log, 'c'), {
+      phase: 'render',
+      after: ['a'],
+    });
+    expect(() => scheduler.remove('a')).toThrow(
+      "System: a can't be removed, it's named in the ordering constraints of: b, c"
+    );
+    scheduler.tick(1);
+    expect(log).toEqual(['a', 'b', 'c']);
+    expect(scheduler.remove('b')).toBe(true);
+    expect(scheduler.remove('c')).toBe(true);
+    expect(scheduler.remove('a')).toBe(true);
+    scheduler.tick(1);
+    expect(log).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should pass delta time to systems processing matching entities', () => {
+    const id = em.create(
+      new Position({ x: 0, y: 0 }),
+      new MoveTo({ x: 1, y: 2 })
+    ).id;
+    const stationary = em.create(new Position({ x: 0, y: 0 })).id;
+    scheduler.add('movement', new Movement(), { phase: 'simulation' });
+    scheduler.tick(0.5);
+    expect(em.getComponent(id, Position)).toEqual(
+      new Position({ x: 0.5, y: 1 })
+    );
+    expect(em.getComponent(stationary, Position)).toEqual(
+      new Position({ x: 0, y: 0 })
+    );
+  });
+
+  it('should throw when given duplicate phase names', () => {
+    expect(() => new Scheduler(em, ['a', 'a'])).toThrow();
+  });
+
+  describe('Deferred commands', () => {
+    let moving: EntityId[];
+    beforeEach(() => {
+      moving = [1, 2, 3].map(
+        (x) => em.create(new MoveTo({ x, y: 0 }), new Position({ x, y: 0 })).id
+      );
+    });
+
+    it('should apply commands queued while iterating after the system runs', () => {
+      scheduler.add('arrival', new Arrival(), { phase: 'simulation' });
+      scheduler.tick(1);
+      expect(em.matchingIds(MoveTo)).toEqual([]);
+      expect(em.matchingIds(Arrived).sort()).toEqual(moving.sort());
+    });
+
+    it('should apply commands after each system by default', () => {
+      const counter = new Counter();
+      scheduler.add('arrival', new Arrival(), { phase: 'simulation' });
+      scheduler.add('counter', counter, { phase: 'simulation' });
+      scheduler.tick(1);
+      expect(counter.counts).toEqual([3]);
+    });
+
+    it('should apply commands after each phase when configured to', () => {
+      scheduler = new Scheduler(em, undefined, { sync: 'phase' });
+      const sameCounter = new Counter();
+      const laterCounter = new Counter();
+      scheduler.add('arrival', new Arrival(), { phase: 'simulation' });
+      scheduler.add('same-phase', sameCounter, { phase: 'simulation' });
+      scheduler.add('later-phase', laterCounter, { phase: 'render' });
+      scheduler.tick(1);
+      expect(sameCounter.counts).toEqual([0]);
+      expect(laterCounter.counts).toEqual([3]);
+    });
+  });
+});
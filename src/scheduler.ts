@@ -0,0 +1,264 @@
+import { CommandBuffer } from './command-buffer';
+import { EntityManager } from './entity-manager';
+import { System } from './system';
+
+export const DEFAULT_PHASES = ['input', 'simulation', 'render'];
+
+export interface SchedulerOptions {
+  /** When queued commands are applied: after each system (the default), or after each phase */
+  sync?: 'system' | 'phase';
+}
+
+export interface SystemOptions {
+  /** Phase that the system runs in */
+  phase: string;
+  /** Names of systems that this system must run before */
+  before?: string[];
+  /** Names of systems that this system must run after */
+  after?: string[];
+  /** Whether the system starts out enabled, defaults to true */
+  enabled?: boolean;
+}
+
+interface SystemEntry {
+  name: string;
+  system: System;
+  phase: string;
+  before: string[];
+  after: string[];
+  enabled: boolean;
+}
+
+/** Runs registered systems against an EntityManager in ordered phases
+ *
+ * Phases run in the order they were given at construction. Within a phase systems run in registration order, adjusted
+ * so that all before/after constraints are satisfied.
+ */
+export class Scheduler {
+  private systems = new Map<string, SystemEntry>();
+  private phaseOrder: Map<string, SystemEntry[]> | null = null;
+  private commands: CommandBuffer;
+
+  /**
+   * @param em - The entity manager that systems are run against
+   * @param phases - Names of the phases in the order they're run each tick
+   * @param options - Configuration for how systems are run
+   *
+   * @throws {Error} If a phase name is repeated
+   */
+  constructor(
+    private em: EntityManager,
+    private phases: string[] = DEFAULT_PHASES,
+    private options: SchedulerOptions = {}
+  ) {
+    if (new Set(phases).size !== phases.length) {
+      throw Error(`Phase names must be unique, got: ${phases.join(', ')}`);
+    }
+    this.commands = em.commandBuffer();
+  }
+
+  /** Register a system to be run each tick
+   *
+   * @param name - Unique name for the system, used for ordering constraints and enabling/disabling
+   * @param system - The system to run
+   * @param options - Phase and ordering constraints for the system
+   *
+   * @throws {Error} If a system with the name already exists or the phase doesn't exist
+   *
+   * @note - Systems named in ordering constraints can be added later, but must exist by the time the systems are
+   *         ordered
+   */
+  add(name: string, system: System, options: SystemOptions): void {
+    if (this.systems.has(name)) {
+      throw Error(`System with name: ${name} already exists!`);
+    }
+    if (this.phases.indexOf(options.phase) === -1) {
+      throw Error(`Phase: ${options.phase} for system: ${name} doesn't exist!`);
+    }
+    this.systems.set(name, {
+      name,
+      system,
+      phase: options.phase,
+      before: options.before || [],
+      after: options.after || [],
+      enabled: options.enabled === undefined ? true : options.enabled,
+    });
+    this.phaseOrder = null;
+  }
+
+  /** Unregister a system
+   *
+   * @returns - True if the system existed and was removed, false otherwise
+   *
+   * @throws {Error} If another system's ordering constraints name the system, those systems must be removed first
+   */
+  remove(name: string): boolean | never {
+    const dependents = Array.from(this.systems.values())
+      .filter(
+        (entry) =>
+          entry.before.indexOf(name) !== -1 || entry.after.indexOf(name) !== -1
+      )
+      .map((entry) => entry.name);
+    if (dependents.length !== 0) {
+      throw Error(
+        `System: ${name} can't be removed, it's named in the ordering constraints of: ${dependents.join(
+          ', '
+        )}`
+      );
+    }
+    this.phaseOrder = null;
+    return this.systems.delete(name);
+  }
+
+  /** Checks whether a system with the given name has been registered
+   */
+  has(name: string): boolean {
+    return this.systems.has(name);
+  }
+
+  /** Allow a system to run on subsequent ticks
+   *
+   * @throws {Error} If the system doesn't exist
+   */
+  enable(name: string): void {
+    this.entry(name).enabled = true;
+  }
+
+  /** Prevent a system from running on subsequent ticks, it remains registered and retains its ordering
+   *
+   * @throws {Error} If the system doesn't exist
+   */
+  disable(name: string): void {
+    this.entry(name).enabled = false;
+  }
+
+  /** Checks whether a system is enabled
+   *
+   * @throws {Error} If the system doesn't exist
+   */
+  isEnabled(name: string): boolean {
+    return this.entry(name).enabled;
+  }
+
+  /** Get the names of the systems in the order that they will be run, including disabled systems
+   *
+   * @param phase - Restrict the result to the systems in this phase
+   *
+   * @throws {Error} If the ordering constraints name a system that doesn't exist or can't be satisfied
+   */
+  order(phase?: string): string[] {
+    const phases = phase === undefined ? this.phases : [phase];
+    const ordered = this.resolveOrder();
+    const names: string[] = [];
+    for (const p of phases) {
+      for (const entry of ordered.get(p) || []) {
+        names.push(entry.name);
+      }
+    }
+    return names;
+  }
+
+  /** Run all enabled systems once, phase by phase
+   *
+   * Commands queued by systems are applied after each system, or after each phase if configured to.
+   *
+   * @param dt - Time elapsed since the previous tick, passed through to each system
+   *
+   * @throws {Error} If the ordering constraints name a system that doesn't exist or can't be satisfied, or queued commands can't be applied
+   */
+  tick(dt: number): void {
+    const ordered = this.resolveOrder();
+    const ctx = { em: this.em, dt, commands: this.commands };
+    for (const phase of this.phases) {
+      for (const entry of ordered.get(phase)!) {
+        if (entry.enabled) {
+          entry.system.update(ctx);
+          if (this.options.sync !== 'phase') {
+            this.commands.flush();
+          }
+        }
+      }
+      this.commands.flush();
+    }
+  }
+
+  private entry(name: string): SystemEntry | never {
+    const entry = this.systems.get(name);
+    if (!entry) {
+      throw Error(`System with name: ${name} doesn't exist!`);
+    }
+    return entry;
+  }
+
+  private resolveOrder(): Map<string, SystemEntry[]> {
+    if (!this.phaseOrder) {
+      const phaseOrder = new Map<string, SystemEntry[]>();
+      for (const phase of this.phases) {
+        phaseOrder.set(phase, this.sortPhase(phase));
+      }
+      this.phaseOrder = phaseOrder;
+    }
+    return this.phaseOrder;
+  }
+
+  private sortPhase(phase: string): SystemEntry[] | never {
+    const entries = Array.from(this.systems.values()).filter(
+      (entry) => entry.phase === phase
+    );
+    const successors = new Map<string, Set<string>>();
+    const inDegree = new Map<string, number>();
+    for (const entry of entries) {
+      successors.set(entry.name, new Set<string>());
+      inDegree.set(entry.name, 0);
+    }
+    const constrain = (first: string, second: string) => {
+      const firstPhase = this.phases.indexOf(this.systems.get(first)!.phase);
+      const secondPhase = this.phases.indexOf(this.systems.get(second)!.phase);
+      if (firstPhase > secondPhase) {
+        throw Error(
+          `System: ${first} must run before: ${second}, but its phase runs later!`
+        );
+      }
+      if (firstPhase === secondPhase && !successors.get(first)!.has(second)) {
+        successors.get(first)!.add(second);
+        inDegree.set(second, inDegree.get(second)! + 1);
+      }
+    };
+    const check = (name: string, relation: string, other: string) => {
+      if (!this.systems.has(other)) {
+        throw Error(
+          `System: ${name} must run ${relation}: ${other}, which doesn't exist!`
+        );
+      }
+    };
+    for (const entry of entries) {
+      for (const other of entry.before) {
+        check(entry.name, 'before', other);
+        constrain(entry.name, other);
+      }
+      for (const other of entry.after) {
+        check(entry.name, 'after', other);
+        constrain(other, entry.name);
+      }
+    }
+
+    const sorted: SystemEntry[] = [];
+    const remaining = entries.slice();
+    while (remaining.length !== 0) {
+      const next = remaining.findIndex((e) => inDegree.get(e.name) === 0);
+      if (next === -1) {
+        throw Error(
+          `Systems in phase: ${phase} have circular ordering constraints: ${remaining
+            .map((e) => e.name)
+            .join(', ')}`
+        );
+      }
+      const [entry] = remaining.splice(next, 1);
+      for (const successor of successors.get(entry.name)!) {
+        inDegree.set(successor, inDegree.get(successor)! - 1);
+      }
+      sorted.push(entry);
+    }
+    return sorted;
+  }
+}
@@ -0,0 +1,233 @@
+import { Component, EntityId, EntityManager } from './entity-manager';
+import { Schema } from './schema';
+import { Position } from './dummy-components.model';
+
+class Waypoint extends Component {
+  static schema = new Schema({
+    at: { object: { x: 'number', y: 'number' } },
+    label: { type: 'string', optional: true },
+    speed: { type: 'number', default: 1 },
+  });
+
+  constructor(
+    public at: { x: number; y: number },
+    public label?: string,
+    public speed = 1
+  ) {
+    super();
+  }
+}
+
+class Inventory extends Component {
+  static schema = new Schema({
+    owner: 'entity',
+    items: { mapOf: 'number', keys: 'entity' },
+    tags: { setOf: 'string' },
+    lastUsed: { type: 'date', optional: true },
+    watchers: { arrayOf: 'entity' },
+  });
+
+  constructor(
+    public owner: EntityId,
+    public items = new Map<EntityId, number>(),
+    public tags = new Set<string>(),
+    public watchers: EntityId[] = [],
+    public lastUsed?: Date
+  ) {
+    super();
+  }
+}
+
+class Note extends Component {
+  static schema = new Schema({ info: 'json' });
+
+  constructor(public info: any) {
+    super();
+  }
+}
+
+describe('Component schemas', () => {
+  let em: EntityManager;
+  const types = { Waypoint, Inventory, Position, Note };
+
+  beforeEach(() => {
+    em = new EntityManager();
+  });
+
+  it('should reject components that do not match their schema, naming the entity and field', () => {
+    const id = em.create().id;
+    expect(() =>
+      em.setComponent(id, new Waypoint({ x: 1, y: 'a' as any }))
+    ).toThrow(
+      `Component: Waypoint on entity: ${id} is invalid, field: at.y should be a number but is string: "a"`
+    );
+    expect(em.hasComponent(id, Waypoint)).toBe(false);
+    expect(() =>
+      em.create(new Inventory(id, new Map([[id, 'many' as any]])))
+    ).toThrow(`field: items[${id}] should be a number but is string: "many"`);
+    expect(em.count()).toEqual(1);
+  });
+
+  it('should reject invalid components in a transaction without applying any changes', () => {
+    const id = em.create(new Waypoint({ x: 1, y: 1 })).id;
+    expect(() =>
+      em.transaction((tx) => {
+        tx.setComponent(id, new Waypoint({ x: 2, y: 2 }));
+        tx.setComponent(id, new Inventory(-1));
+      })
+    ).toThrow('field: owner should be an entity id but is number: -1');
+    expect(em.getComponent(id, Waypoint)).toEqual(new Waypoint({ x: 1, y: 1 }));
+  });
+
+  it('should validate imported data and fill in defaults', () => {
+    const data = {
+      indexed: [],
+      entities: {
+        '1': { Waypoint: { at: { x: 1, y: 2 } } },
+        '2': { Waypoint: { at: { x: 1 } } },
+      },
+    };
+    expect(() => em.import(data, types)).toThrow(
+      'Component: Waypoint on entity: 2 is invalid, field: at.y is missing'
+    );
+
+    delete data.entities['2'];
+    em.import(data, types);
+    const waypoint = em.getComponent(1, Waypoint)!;
+    expect(waypoint).toBeInstanceOf(Waypoint);
+    expect(waypoint).toEqual(new Waypoint({ x: 1, y: 2 }, undefined, 1));
+  });
+
+  it('should round trip non JSON fields through export and import', () => {
+    const owner = em.create().id;
+    const watcher = em.create().id;
+    const lastUsed = new Date('2020-01-02T03:04:05.000Z');
+    const inventory = new Inventory(
+      owner,
+      new Map([
+        [owner, 2],
+        [watcher, 3],
+      ]),
+      new Set(['heavy']),
+      [watcher],
+      lastUsed
+    );
+    em.create(inventory, new Waypoint({ x: 0, y: 0 }, 'home'));
+
+    const data = em.export();
+    expect(data.entities[3].Inventory).toEqual({
+      owner,
+      items: [
+        [owner, 2],
+        [watcher, 3],
+      ],
+      tags: ['heavy'],
+      lastUsed: '2020-01-02T03:04:05.000Z',
+      watchers: [watcher],
+    });
+
+    const other = new EntityManager();
+    other.import(JSON.parse(JSON.stringify(data)), types);
+    expect(other.getComponent(3, Inventory)).toEqual(inventory);
+    expect(other.getComponent(3, Inventory)!.lastUsed).toBeInstanceOf(Date);
+    expect(other.getComponent(3, Waypoint)).toEqual(
+      new Waypoint({ x: 0, y: 0 }, 'home')
+    );
+  });
+
+  it('should round trip null field values through export and import', () => {
+    const id = em.create(new Note(null), new Waypoint({ x: 1, y: 1 })).id;
+    const other = new EntityManager();
+    other.import(em.export(), types);
+    expect(other.getComponent(id, Note)).toEqual(new Note(null));
+    expect(other.export()).toEqual(em.export());
+    expect(() =>
+      other.import(
+        {
+          indexed: [],
+          entities: { 1: { Waypoint: { at: { x: 1, y: null } } } },
+        },
+        types
+      )
+    ).toThrow('field: at.y should be a number but is null');
+  });
+
+  it('should apply patches with schema fields', () => {
+    const id = em.create(new Inventory(0)).id;
+    const snapshot = em.export();
+    const copy = new EntityManager();
+    copy.import(snapshot, types);
+
+    em.setComponent(id, new Inventory(0, new Map(), new Set(['a', 'b'])));
+    copy.applyPatch(em.diff(snapshot), types);
+    expect(copy.getComponent(id, Inventory)!.tags).toEqual(new Set(['a', 'b']));
+    expect(() =>
+      copy.applyPatch(
+        { ...em.diff(snapshot), changed: { [id]: { Inventory: {} } } },
+        types
+      )
+    ).toThrow(`Component: Inventory on entity: ${id} is invalid`);
+  });
+
+  it('should validate prefab instances', () => {
+    em.loadPrefabs(
+      {
+        prefabs: {
+          marker: { components: { Waypoint: { at: { x: 0, y: 0 } } } },
+        },
+      },
+      types
+    );
+    expect(em.instantiate('marker').component(Waypoint)).toEqual(
+      new Waypoint({ x: 0, y: 0 })
+    );
+    expect(() =>
+      em.instantiate('marker', { Waypoint: { speed: 'fast' } })
+    ).toThrow(
+      'Component: Waypoint in prefab: marker is invalid, field: speed should be a number but is string: "fast"'
+    );
+  });
+
+  it('should remap the entity fields declared by a schema when transferring entities', () => {
+    const player = em.create().id;
+    const chest = em.create().id;
+    const stranger = em.create().id;
+    em.setComponent(
+      chest,
+      new Inventory(
+        player,
+        new Map([
+          [player, 1],
+          [stranger, 2],
+        ]),
+        new Set(),
+        [player, stranger]
+      )
+    );
+    em.setParent(chest, player);
+
+    const other = new EntityManager();
+    other.create();
+    const newPlayer = em.transferTo(other, player);
+    const newChest = other.children(newPlayer)[0];
+    expect(other.getComponent(newChest, Inventory)).toEqual(
+      new Inventory(newPlayer, new Map([[newPlayer, 1]]), new Set(), [
+        newPlayer,
+      ])
+    );
+  });
+
+  it('should drop components whose required entity field refers to an entity that is not transferred', () => {
+    const owner = em.create().id;
+    const chest = em.create(new Inventory(owner)).id;
+    const other = new EntityManager();
+    const newChest = em.transferTo(other, chest);
+    expect(other.hasComponent(newChest, Inventory)).toBe(false);
+  });
+
+  it('should leave components without a schema unchanged', () => {
+    const id = em.create(new Position({ x: 1, y: 1 })).id;
+    em.setComponent(id, new Position({ x: 'a' as any, y: 1 }));
+    expect(em.export().entities[id].Position).toEqual({ x: 'a', y: 1 });
+  });
+});
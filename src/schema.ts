@@ -0,0 +1,404 @@
+import { Component, ComponentConstructor } from './component';
+import { EntityId } from './entity-manager';
+import { AnyJson, JsonObject } from './types';
+
+/** The type of a field in a schema
+ *
+ * - entity: an EntityId, which is updated when entities move between entity managers
+ * - date: a Date, serialised as an ISO string
+ * - json: any value that can be serialised as JSON, which isn't checked
+ * - arrayOf / setOf: an Array or Set of values of a type, both serialised as an array
+ * - mapOf: a Map with keys of a type and values of a type, serialised as an array of [key, value] pairs
+ * - object: a nested object with its own fields e.g. a Coord2
+ */
+export type FieldType =
+  | 'number'
+  | 'string'
+  | 'boolean'
+  | 'entity'
+  | 'date'
+  | 'json'
+  | { arrayOf: FieldSpec }
+  | { setOf: FieldSpec }
+  | { mapOf: FieldSpec; keys?: 'string' | 'number' | 'entity' }
+  | { object: SchemaFields };
+
+export interface FieldOptions {
+  type: FieldType;
+  /** Whether the field can be left undefined, defaults to false */
+  optional?: boolean;
+  /** Value used when the field is missing from data being deserialised, a function is called for each value */
+  default?: any;
+}
+
+export type FieldSpec = FieldType | FieldOptions;
+
+export interface SchemaFields {
+  [field: string]: FieldSpec;
+}
+
+/** Declares the fields of a component type, so that they can be validated and (de)serialised
+ *
+ * Component types declare a schema with a static `schema` property. Components with a schema are validated whenever
+ * they're added to an entity manager, and are created from data without calling their constructor.
+ *
+ * @example
+ * class Position extends Component {
+ *   static schema = new Schema({ x: 'number', y: 'number' });
+ * }
+ */
+export class Schema {
+  constructor(readonly fields: SchemaFields) {}
+
+  /** Check a value against the schema
+   *
+   * @returns - A description of each problem found, naming the field it was found in
+   */
+  validate(value: any): string[] {
+    const errors: string[] = [];
+    checkObject(this.fields, value, '', errors);
+    return errors;
+  }
+
+  /** Convert a value to data that can be serialised as JSON */
+  serialise(value: any): JsonObject {
+    return objectToData(this.fields, value);
+  }
+
+  /** Convert data to the fields of a value, filling in defaults for missing fields
+   *
+   * @returns - The fields, along with a description of each problem found in the data
+   */
+  deserialise(data: AnyJson): {
+    fields: { [field: string]: any };
+    errors: string[];
+  } {
+    const fields = objectFromData(this.fields, data);
+    return { fields, errors: this.validate(fields) };
+  }
+
+  /** Get a copy of a value with the entity ids it holds replaced
+   *
+   * Entities that aren't remapped are removed from arrays, sets and maps, and optional fields are cleared.
+   *
+   * @returns - The copy, or undefined if a required field refers to an entity that isn't remapped
+   */
+  remap<T>(
+    value: T,
+    remap: (id: EntityId) => EntityId | undefined
+  ): T | undefined {
+    const copy = Object.create(Object.getPrototypeOf(value));
+    const fields = remapObject(this.fields, value, remap);
+    return fields === undefined
+      ? undefined
+      : Object.assign(copy, value, fields);
+  }
+}
+
+/** Get the schema declared by a component type, if any */
+export function schemaOf(type: ComponentConstructor): Schema | undefined {
+  return (type as typeof Component).schema;
+}
+
+/** Create a component from its data, using the component type's schema if it has one
+ *
+ * @param schema - Schema to use in place of the one declared by the type
+ *
+ * @throws {Error} - If the data doesn't match the schema
+ */
+export function componentFromData(
+  type: ComponentConstructor,
+  data: AnyJson,
+  schema = schemaOf(type)
+): Component | never {
+  if (!schema) {
+    return new type(data);
+  }
+  const { fields, errors } = schema.deserialise(data);
+  if (errors.length !== 0) {
+    throw Error(errors.join(', '));
+  }
+  return Object.assign(Object.create(type.prototype), fields);
+}
+
+/** Convert a component to data that can be serialised as JSON, using its type's schema if it has one
+ *
+ * @param schema - Schema to use in place of the one declared by the type
+ */
+export function componentToData(
+  component: Component,
+  schema = schemaOf(component.constructor as ComponentConstructor)
+): AnyJson {
+  return schema
+    ? schema.serialise(component)
+    : JSON.parse(JSON.stringify(component));
+}
+
+function optionsOf(spec: FieldSpec): FieldOptions {
+  return typeof spec === 'object' && 'type' in spec
+    ? spec
+    : { type: spec as FieldType };
+}
+
+function describe(value: any): string {
+  if (value === null || value === undefined) {
+    return `${value}`;
+  }
+  if (Array.isArray(value)) {
+    return 'an array';
+  }
+  return typeof value === 'object'
+    ? `an instance of ${value.constructor ? value.constructor.name : 'Object'}`
+    : `${typeof value}: ${JSON.stringify(value)}`;
+}
+
+function isPlainObject(value: any): boolean {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function checkObject(
+  fields: SchemaFields,
+  value: any,
+  path: string,
+  errors: string[]
+): void {
+  if (!isPlainObject(value)) {
+    errors.push(
+      `${path || 'value'} should be an object but is ${describe(value)}`
+    );
+    return;
+  }
+  for (const [field, spec] of Object.entries(fields)) {
+    check(spec, value[field], path ? `${path}.${field}` : field, errors);
+  }
+}
+
+function check(
+  spec: FieldSpec,
+  value: any,
+  path: string,
+  errors: string[]
+): void {
+  const { type, optional } = optionsOf(spec);
+  if (value === undefined) {
+    if (!optional) {
+      errors.push(`field: ${path} is missing`);
+    }
+    return;
+  }
+  const fail = (expected: string) =>
+    errors.push(
+      `field: ${path} should be ${expected} but is ${describe(value)}`
+    );
+
+  if (typeof type === 'string') {
+    switch (type) {
+      case 'number':
+      case 'string':
+      case 'boolean':
+        if (typeof value !== type) {
+          fail(`a ${type}`);
+        }
+        break;
+      case 'entity':
+        if (
+          typeof value !== 'number' ||
+          !Number.isInteger(value) ||
+          value < 0
+        ) {
+          fail('an entity id');
+        }
+        break;
+      case 'date':
+        if (!(value instanceof Date) || isNaN(value.getTime())) {
+          fail('a valid Date');
+        }
+        break;
+      case 'json':
+        break;
+    }
+  } else if ('arrayOf' in type) {
+    if (!Array.isArray(value)) {
+      fail('an array');
+    } else {
+      value.forEach((item, i) =>
+        check(type.arrayOf, item, `${path}[${i}]`, errors)
+      );
+    }
+  } else if ('setOf' in type) {
+    if (!(value instanceof Set)) {
+      fail('a Set');
+    } else {
+      Array.from(value).forEach((item, i) =>
+        check(type.setOf, item, `${path}[${i}]`, errors)
+      );
+    }
+  } else if ('mapOf' in type) {
+    if (!(value instanceof Map)) {
+      fail('a Map');
+    } else {
+      for (const [key, item] of value) {
+        check(
+          type.keys || 'string',
+          key,
+          `${path} key ${JSON.stringify(key)}`,
+          errors
+        );
+        check(type.mapOf, item, `${path}[${JSON.stringify(key)}]`, errors);
+      }
+    }
+  } else {
+    checkObject(type.object, value, path, errors);
+  }
+}
+
+function objectToData(fields: SchemaFields, value: any): JsonObject {
+  const data: JsonObject = {};
+  for (const [field, spec] of Object.entries(fields)) {
+    if (value[field] !== undefined) {
+      data[field] = toData(optionsOf(spec).type, value[field]);
+    }
+  }
+  return data;
+}
+
+function toData(type: FieldType, value: any): AnyJson {
+  if (typeof type === 'string') {
+    return type === 'date'
+      ? (value as Date).toISOString()
+      : JSON.parse(JSON.stringify(value));
+  } else if ('arrayOf' in type) {
+    return (value as any[]).map((item) =>
+      toData(optionsOf(type.arrayOf).type, item)
+    );
+  } else if ('setOf' in type) {
+    return Array.from(value as Set<any>).map((item) =>
+      toData(optionsOf(type.setOf).type, item)
+    );
+  } else if ('mapOf' in type) {
+    return Array.from(value as Map<any, any>).map(
+      ([key, item]): AnyJson => [key, toData(optionsOf(type.mapOf).type, item)]
+    );
+  } else {
+    return objectToData(type.object, value);
+  }
+}
+
+function objectFromData(fields: SchemaFields, data: AnyJson): any {
+  if (!isPlainObject(data)) {
+    return data;
+  }
+  const value: { [field: string]: any } = {};
+  for (const [field, spec] of Object.entries(fields)) {
+    const options = optionsOf(spec);
+    const fieldData = (data as JsonObject)[field];
+    if (fieldData !== undefined) {
+      value[field] = fromData(options.type, fieldData);
+    } else if ('default' in options) {
+      value[field] =
+        typeof options.default === 'function'
+          ? options.default()
+          : options.default;
+    }
+  }
+  return value;
+}
+
+function fromData(type: FieldType, data: AnyJson): any {
+  if (typeof type === 'string') {
+    return type === 'date' && typeof data === 'string' ? new Date(data) : data;
+  } else if ('arrayOf' in type) {
+    return Array.isArray(data)
+      ? data.map((item) => fromData(optionsOf(type.arrayOf).type, item))
+      : data;
+  } else if ('setOf' in type) {
+    return Array.isArray(data)
+      ? new Set(data.map((item) => fromData(optionsOf(type.setOf).type, item)))
+      : data;
+  } else if ('mapOf' in type) {
+    if (Array.isArray(data)) {
+      return new Map(
+        data.map((pair) => {
+          const [key, item] = pair as [AnyJson, AnyJson];
+          return [key, fromData(optionsOf(type.mapOf).type, item)] as [
+            any,
+            any
+          ];
+        })
+      );
+    }
+    return isPlainObject(data)
+      ? new Map(
+          Object.entries(data as JsonObject).map(
+            ([key, item]) =>
+              [key, fromData(optionsOf(type.mapOf).type, item)] as [any, any]
+          )
+        )
+      : data;
+  } else {
+    return objectFromData(type.object, data);
+  }
+}
+
+/** Marks a value that refers to an entity that isn't being remapped */
+const DROPPED = {};
+
+function remapObject(
+  fields: SchemaFields,
+  value: any,
+  remap: (id: EntityId) => EntityId | undefined
+): { [field: string]: any } | undefined {
+  const remapped: { [field: string]: any } = {};
+  for (const [field, spec] of Object.entries(fields)) {
+    const { type, optional } = optionsOf(spec);
+    if (value[field] === undefined) {
+      continue;
+    }
+    const fieldValue = remapValue(type, value[field], remap);
+    if (fieldValue === DROPPED) {
+      if (!optional) {
+        return undefined;
+      }
+      remapped[field] = undefined;
+    } else {
+      remapped[field] = fieldValue;
+    }
+  }
+  return remapped;
+}
+
+function remapValue(
+  type: FieldType,
+  value: any,
+  remap: (id: EntityId) => EntityId | undefined
+): any {
+  const remapItems = (items: any[], itemSpec: FieldSpec) =>
+    items
+      .map((item) => remapValue(optionsOf(itemSpec).type, item, remap))
+      .filter((item) => item !== DROPPED);
+
+  if (typeof type === 'string') {
+    if (type !== 'entity') {
+      return value;
+    }
+    const id = remap(value);
+    return id === undefined ? DROPPED : id;
+  } else if ('arrayOf' in type) {
+    return remapItems(value, type.arrayOf);
+  } else if ('setOf' in type) {
+    return new Set(remapItems(Array.from(value), type.setOf));
+  } else if ('mapOf' in type) {
+    const map = new Map();
+    for (const [key, item] of value as Map<any, any>) {
+      const newKey = type.keys === 'entity' ? remap(key) : key;
+      const newItem = remapValue(optionsOf(type.mapOf).type, item, remap);
+      if (newKey !== undefined && newItem !== DROPPED) {
+        map.set(newKey, newItem);
+      }
+    }
+    return map;
+  } else {
+    const fields = remapObject(type.object, value, remap);
+    return fields === undefined ? DROPPED : Object.assign({}, value, fields);
+  }
+}
@@ -0,0 +1,106 @@
+import { EntityId, EntityManager } from './entity-manager';
+import { SpatialIndex } from './spatial-index';
+import { Position, Renderable } from './dummy-components.model';
+
+describe('SpatialIndex', () => {
+  let index: SpatialIndex;
+
+  beforeEach(() => {
+    index = new SpatialIndex(4);
+    index.add({ x: 0, y: 0 }, 1);
+    index.add({ x: 3, y: 4 }, 2);
+    index.add({ x: -5, y: 2 }, 3);
+    index.add({ x: 20, y: 20 }, 4);
+  });
+
+  it('should find the ids within a rectangle', () => {
+    expect(index.withinRect({ x: -5, y: 0 }, { x: 3, y: 4 }).sort()).toEqual([
+      1, 2, 3,
+    ]);
+    expect(index.withinRect({ x: 1, y: 1 }, { x: 2, y: 2 })).toEqual([]);
+    expect(index.withinRect({ x: 1, y: 1 }, { x: 0, y: 0 })).toEqual([]);
+  });
+
+  it('should find the ids within a radius', () => {
+    expect(index.withinRadius({ x: 0, y: 0 }, 5).sort()).toEqual([1, 2]);
+    expect(index.withinRadius({ x: 0, y: 0 }, 100).sort()).toEqual([
+      1, 2, 3, 4,
+    ]);
+  });
+
+  it('should move and remove ids', () => {
+    index.add({ x: 21, y: 21 }, 1);
+    expect(index.remove(2)).toBe(true);
+    expect(index.remove(2)).toBe(false);
+    expect(index.withinRadius({ x: 20, y: 20 }, 2).sort()).toEqual([1, 4]);
+    expect(index.count()).toEqual(3);
+  });
+
+  it('should reject a cell size that is not positive', () => {
+    expect(() => new SpatialIndex(0)).toThrow(
+      'Cell size: 0 should be a positive number!'
+    );
+  });
+});
+
+describe('Spatial indexes', () => {
+  let em: EntityManager;
+  let ids: EntityId[];
+
+  beforeEach(() => {
+    em = new EntityManager();
+    ids = [
+      { x: 0, y: 0 },
+      { x: 2, y: 1 },
+      { x: 10, y: 10 },
+    ].map((at) => em.create(new Position(at)).id);
+    em.indexSpatial(Position, { cellSize: 4 });
+  });
+
+  const sortedIds = (entities: { id: EntityId }[]) =>
+    entities.map((entity) => entity.id).sort((a, b) => a - b);
+
+  it('should find the entities in an area', () => {
+    expect(
+      sortedIds(em.withinRect(Position, { x: 0, y: 0 }, { x: 2, y: 2 }))
+    ).toEqual([ids[0], ids[1]]);
+    expect(sortedIds(em.withinRadius(Position, { x: 9, y: 9 }, 2))).toEqual([
+      ids[2],
+    ]);
+  });
+
+  it('should be kept up to date as components change', () => {
+    em.setComponent(ids[2], new Position({ x: 1, y: 1 }));
+    em.removeComponent(ids[0], Position);
+    expect(sortedIds(em.withinRadius(Position, { x: 0, y: 0 }, 3))).toEqual([
+      ids[1],
+      ids[2],
+    ]);
+  });
+
+  it('should use the position given by the options', () => {
+    em.indexSpatial(Renderable, {
+      position: (renderable) => ({ x: renderable.zOrder, y: 0 }),
+    });
+    const id = em.create(new Renderable('tree', 3)).id;
+    expect(sortedIds(em.withinRadius(Renderable, { x: 3, y: 0 }, 0))).toEqual([
+      id,
+    ]);
+  });
+
+  it('should reject components without a position', () => {
+    expect(() =>
+      em.create(new Position({ x: 1, y: undefined as any }))
+    ).toThrow(
+      'has a position: (1, undefined), which is not a pair of numbers!'
+    );
+  });
+
+  it('should be copied with entities transferred to another entity manager', () => {
+    const other = new EntityManager();
+    const id = em.transferTo(other, ids[0]);
+    expect(
+      sortedIds(other.withinRect(Position, { x: 0, y: 0 }, { x: 0, y: 0 }))
+    ).toEqual([id]);
+  });
+});
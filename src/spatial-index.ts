@@ -0,0 +1,126 @@
+import { EntityId } from './entity-manager';
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/** Entities bucketed by the cell of a uniform grid that their position falls in, so that those in an area can be found
+ * by checking only the cells that overlap it
+ *
+ * The cell size should be around the size of the areas usually searched, e.g. a few tiles in a tile based game.
+ *
+ * @see EntityManager.indexSpatial - Sets up a spatial index for a component type
+ */
+export class SpatialIndex {
+  private cells = new Map<string, Set<EntityId>>();
+  private positions = new Map<EntityId, Point>();
+
+  /**
+   * @param cellSize - Width and height of each cell of the grid
+   *
+   * @throws {Error} - If the cell size isn't a positive number
+   */
+  constructor(readonly cellSize: number) {
+    if (!(cellSize > 0)) {
+      throw Error(`Cell size: ${cellSize} should be a positive number!`);
+    }
+  }
+
+  add(position: Point, id: EntityId): void {
+    this.remove(id);
+    const key = this.cellKey(this.cell(position.x), this.cell(position.y));
+    if (!this.cells.has(key)) {
+      this.cells.set(key, new Set<EntityId>());
+    }
+    this.cells.get(key)!.add(id);
+    this.positions.set(id, { x: position.x, y: position.y });
+  }
+
+  remove(id: EntityId): boolean {
+    const position = this.positions.get(id);
+    if (!position) {
+      return false;
+    }
+    const key = this.cellKey(this.cell(position.x), this.cell(position.y));
+    const cell = this.cells.get(key)!;
+    cell.delete(id);
+    if (cell.size === 0) {
+      this.cells.delete(key);
+    }
+    this.positions.delete(id);
+    return true;
+  }
+
+  /** Get the entities positioned within a rectangle, including its edges */
+  withinRect(min: Point, max: Point): EntityId[] {
+    return this.search(
+      min,
+      max,
+      (position) =>
+        position.x >= min.x &&
+        position.x <= max.x &&
+        position.y >= min.y &&
+        position.y <= max.y
+    );
+  }
+
+  /** Get the entities positioned within a distance of a point, including those at exactly that distance */
+  withinRadius(centre: Point, radius: number): EntityId[] {
+    return this.search(
+      { x: centre.x - radius, y: centre.y - radius },
+      { x: centre.x + radius, y: centre.y + radius },
+      (position) =>
+        (position.x - centre.x) ** 2 + (position.y - centre.y) ** 2 <=
+        radius ** 2
+    );
+  }
+
+  count(): number {
+    return this.positions.size;
+  }
+
+  private search(
+    min: Point,
+    max: Point,
+    inside: (position: Point) => boolean
+  ): EntityId[] {
+    const found: EntityId[] = [];
+    const cellCount =
+      (this.cell(max.x) - this.cell(min.x) + 1) *
+      (this.cell(max.y) - this.cell(min.y) + 1);
+    if (!(cellCount > 0)) {
+      return found;
+    }
+    if (cellCount > this.cells.size) {
+      // The area covers more cells than are occupied, so it's quicker to check each entity
+      for (const [id, position] of this.positions) {
+        if (inside(position)) {
+          found.push(id);
+        }
+      }
+      return found;
+    }
+    for (let x = this.cell(min.x); x <= this.cell(max.x); ++x) {
+      for (let y = this.cell(min.y); y <= this.cell(max.y); ++y) {
+        const cell = this.cells.get(this.cellKey(x, y));
+        if (cell) {
+          for (const id of cell) {
+            if (inside(this.positions.get(id)!)) {
+              found.push(id);
+            }
+          }
+        }
+      }
+    }
+    return found;
+  }
+
+  private cell(coordinate: number): number {
+    return Math.floor(coordinate / this.cellSize);
+  }
+
+  private cellKey(x: number, y: number): string {
+    return `${x},${y}`;
+  }
+}
@@ -0,0 +1,143 @@
+import { EntityManager } from './entity-manager';
+import { ArchetypeStorage, ComponentStorage, MapStorage } from './storage';
+import {
+  MoveTo,
+  Physical,
+  Position,
+  Renderable,
+  Size,
+} from './dummy-components.model';
+
+const STORAGE_TYPES: [string, () => ComponentStorage][] = [
+  ['MapStorage', () => new MapStorage()],
+  ['ArchetypeStorage', () => new ArchetypeStorage()],
+];
+
+for (const [name, createStorage] of STORAGE_TYPES) {
+  describe(name, () => {
+    let storage: ComponentStorage;
+    beforeEach(() => {
+      storage = createStorage();
+      storage.create(1, [
+        new Position({ x: 1, y: 1 }),
+        new Physical(Size.FILL),
+      ]);
+      storage.create(2, [new Position({ x: 2, y: 2 })]);
+      storage.create(3, []);
+    });
+
+    it('should create entities with components', () => {
+      expect(storage.count()).toEqual(3);
+      expect(storage.ids().sort()).toEqual([1, 2, 3]);
+      expect(storage.has(1)).toBe(true);
+      expect(storage.get(1, Position)).toEqual(new Position({ x: 1, y: 1 }));
+      expect(storage.get(1, Renderable)).toBeUndefined();
+      expect(storage.entity(1).has([Position, Physical])).toBe(true);
+    });
+
+    it('should replace a component', () => {
+      storage.set(1, new Position({ x: 5, y: 5 }));
+      expect(storage.get(1, Position)).toEqual(new Position({ x: 5, y: 5 }));
+      expect(storage.get(1, Physical)).toEqual(new Physical(Size.FILL));
+    });
+
+    it('should add and remove components', () => {
+      storage.set(3, new MoveTo({ x: 1, y: 0 }));
+      storage.set(2, new Renderable('r', 1));
+      storage.remove(1, Position);
+      expect(storage.get(3, MoveTo)).toEqual(new MoveTo({ x: 1, y: 0 }));
+      expect(storage.entity(2).has([Position, Renderable])).toBe(true);
+      expect(storage.get(1, Position)).toBeUndefined();
+      expect(
+        storage
+          .entity(1)
+          .allComponents()
+          .map((e) => e.name)
+      ).toEqual(['Physical']);
+    });
+
+    it('should keep other entities intact when one is destroyed', () => {
+      storage.destroy(1);
+      expect(storage.has(1)).toBe(false);
+      expect(storage.count()).toEqual(2);
+      expect(storage.get(2, Position)).toEqual(new Position({ x: 2, y: 2 }));
+    });
+  });
+}
+
+describe('MapStorage', () => {
+  it('should provide entities that do not reflect later changes', () => {
+    const storage = new MapStorage();
+    storage.create(1, [new Position({ x: 1, y: 1 }), new Physical(Size.FILL)]);
+    const entity = storage.entity(1);
+    storage.set(1, new Position({ x: 7, y: 7 }));
+    storage.remove(1, Physical);
+    storage.destroy(1);
+    expect(entity.component(Position)).toEqual(new Position({ x: 1, y: 1 }));
+    expect(entity.has(Physical)).toBe(true);
+  });
+});
+
+describe('ArchetypeStorage', () => {
+  let storage: ArchetypeStorage;
+  beforeEach(() => (storage = new ArchetypeStorage()));
+
+  it('should group entities by their set of component types', () => {
+    storage.create(1, [new Position({ x: 1, y: 1 }), new Physical(Size.FILL)]);
+    storage.create(2, [new Physical(Size.FILL), new Position({ x: 2, y: 2 })]);
+    storage.create(3, [new Position({ x: 3, y: 3 })]);
+    expect(storage.archetypeCount()).toEqual(2);
+    storage.remove(1, Physical);
+    storage.remove(2, Physical);
+    expect(storage.archetypeCount()).toEqual(1);
+  });
+
+  it('should move the last entity of a table into the gap left by a move', () => {
+    storage.create(1, [new Position({ x: 1, y: 1 })]);
+    storage.create(2, [new Position({ x: 2, y: 2 })]);
+    storage.create(3, [new Position({ x: 3, y: 3 })]);
+    storage.set(1, new Physical(Size.FILL));
+    expect(storage.get(3, Position)).toEqual(new Position({ x: 3, y: 3 }));
+    storage.destroy(2);
+    expect(storage.get(3, Position)).toEqual(new Position({ x: 3, y: 3 }));
+    expect(storage.get(1, Position)).toEqual(new Position({ x: 1, y: 1 }));
+  });
+
+  it('should provide entities that reflect later changes until they are removed', () => {
+    storage.create(1, [new Position({ x: 1, y: 1 })]);
+    storage.create(2, [new Position({ x: 2, y: 2 })]);
+    const entity = storage.entity(1);
+    const other = storage.entity(2);
+    storage.set(1, new Position({ x: 7, y: 7 }));
+    expect(entity.component(Position).x).toEqual(7);
+    storage.set(1, new Physical(Size.FILL));
+    expect(entity.has([Position, Physical])).toBe(true);
+    storage.remove(1, Position);
+    expect(entity.allComponents().map((e) => e.name)).toEqual(['Physical']);
+    expect(storage.entity(1)).toBe(entity);
+
+    storage.destroy(1);
+    expect(() => entity.component(Physical)).toThrow(
+      "Entity with id: 1 has been removed, its components can't be read!"
+    );
+    expect(() => entity.allComponents()).toThrow('has been removed');
+    expect(other.component(Position)).toEqual(new Position({ x: 2, y: 2 }));
+  });
+
+  it('should back an entity manager', () => {
+    const em = new EntityManager({ storage: () => new ArchetypeStorage() });
+    em.indexBy(Position);
+    const id = em.create(new Position({ x: 1, y: 1 })).id;
+    em.setComponent(id, new Position({ x: 2, y: 2 }));
+    em.setComponent(id, new Renderable('r', 1));
+    expect(em.matchingIds(Position, Renderable)).toEqual([id]);
+    expect(em.matchingIndex(new Position({ x: 2, y: 2 }))[0].id).toEqual(id);
+    em.removeComponent(id, Renderable);
+    expect(em.matchingIds(Renderable)).toEqual([]);
+    expect(em.export()).toEqual({
+      version: 1,
+      indexed: ['Position'],
+      entities: { [id]: { Position: { x: 2, y: 2 } } },
+    });
+  });
+});
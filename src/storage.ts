@@ -0,0 +1,325 @@
+import { Component, ComponentConstructor } from './component';
+import { Entity } from './entity';
+import { EntityId } from './entity-manager';
+import { typeOf } from './utils';
+
+/** Backend that holds the components of each entity on behalf of an EntityManager
+ *
+ * Storage only holds components, all indexing and notification is taken care of by the EntityManager.
+ */
+export interface ComponentStorage {
+  /** Add an entity, replacing any existing entity with the same id */
+  create(id: EntityId, components: Component[]): void;
+  /** Remove an entity along with its components */
+  destroy(id: EntityId): void;
+  /** Checks whether an entity exists */
+  has(id: EntityId): boolean;
+  /** Add or replace a component on an existing entity */
+  set(id: EntityId, component: Component): void;
+  /** Remove a component from an existing entity */
+  remove(id: EntityId, type: ComponentConstructor): void;
+  /** Get a component from an existing entity, undefined if it doesn't have one of the type */
+  get<T extends ComponentConstructor>(
+    id: EntityId,
+    type: T
+  ): InstanceType<T> | undefined;
+  /** Get an existing entity, which is either a snapshot or a view of its components depending on the storage */
+  entity(id: EntityId): Entity;
+  /** Get the IDs of all entities */
+  ids(): EntityId[];
+  /** Get the number of entities */
+  count(): number;
+}
+
+export type StorageFactory = () => ComponentStorage;
+
+/** Stores each entity as an immutable Entity that is replaced whenever its components change
+ *
+ * Entities handed out are snapshots, they don't reflect changes made after they were retrieved.
+ */
+export class MapStorage implements ComponentStorage {
+  private entities: { [id: number]: Entity } = {};
+
+  create(id: EntityId, components: Component[]): void {
+    this.entities[id] = new Entity(id, ...components);
+  }
+
+  destroy(id: EntityId): void {
+    delete this.entities[id];
+  }
+
+  has(id: EntityId): boolean {
+    return id in this.entities;
+  }
+
+  set(id: EntityId, component: Component): void {
+    this.entities[id] = new Entity(
+      id,
+      ...this.excludeComponents(id, typeOf(component)),
+      component
+    );
+  }
+
+  remove(id: EntityId, type: ComponentConstructor): void {
+    this.entities[id] = new Entity(id, ...this.excludeComponents(id, type));
+  }
+
+  get<T extends ComponentConstructor>(
+    id: EntityId,
+    type: T
+  ): InstanceType<T> | undefined {
+    return this.entities[id].has(type)
+      ? this.entities[id].component(type)
+      : undefined;
+  }
+
+  entity(id: EntityId): Entity {
+    return this.entities[id];
+  }
+
+  ids(): EntityId[] {
+    return Object.keys(this.entities).map(Number);
+  }
+
+  count(): number {
+    return Object.keys(this.entities).length;
+  }
+
+  private excludeComponents(
+    id: EntityId,
+    type: ComponentConstructor
+  ): Component[] {
+    return this.entities[id]
+      .allComponents()
+      .filter((entry) => typeOf(entry.component) !== type)
+      .map((entry) => entry.component);
+  }
+}
+
+/** All entities with exactly the same set of component types, stored a column per type */
+class Archetype {
+  readonly ids: EntityId[] = [];
+  readonly columns = new Map<ComponentConstructor, Component[]>();
+  readonly withType = new Map<ComponentConstructor, Archetype>();
+  readonly withoutType = new Map<ComponentConstructor, Archetype>();
+
+  constructor(readonly types: ComponentConstructor[]) {
+    for (const type of types) {
+      this.columns.set(type, []);
+    }
+  }
+
+  /** Append an entity, returning the row it was stored in */
+  push(id: EntityId, components: Map<ComponentConstructor, Component>): number {
+    for (const [type, column] of this.columns) {
+      column.push(components.get(type)!);
+    }
+    return this.ids.push(id) - 1;
+  }
+
+  /** Remove an entity by moving the last row into its place
+   *
+   * @returns - The id of the entity that now occupies the row, undefined if the row was the last one
+   */
+  swapRemove(row: number): EntityId | undefined {
+    const last = this.ids.length - 1;
+    for (const column of this.columns.values()) {
+      column[row] = column[last];
+      column.pop();
+    }
+    this.ids[row] = this.ids[last];
+    this.ids.pop();
+    return row === last ? undefined : this.ids[row];
+  }
+
+  row(row: number): Map<ComponentConstructor, Component> {
+    const components = new Map<ComponentConstructor, Component>();
+    for (const [type, column] of this.columns) {
+      components.set(type, column[row]);
+    }
+    return components;
+  }
+}
+
+interface Location {
+  archetype: Archetype;
+  row: number;
+  removed: boolean;
+}
+
+/** An entity that reads its components from where archetype storage keeps them, following the entity as it moves */
+class ArchetypeEntity extends Entity {
+  constructor(id: EntityId, private location: Location) {
+    super(id);
+  }
+
+  protected lookup(type: ComponentConstructor): Component | undefined {
+    const location = this.location;
+    if (location.removed) {
+      this.throwRemoved();
+    }
+    const column = location.archetype.columns.get(type);
+    return column && column[location.row];
+  }
+
+  protected entries(): Iterable<[ComponentConstructor, Component]> {
+    if (this.location.removed) {
+      this.throwRemoved();
+    }
+    return this.location.archetype.row(this.location.row);
+  }
+
+  private throwRemoved(): never {
+    throw Error(
+      `Entity with id: ${this.id} has been removed, its components can't be read!`
+    );
+  }
+}
+
+/** Stores components in tables of entities that share the same set of component types (archetypes)
+ *
+ * Replacing a component writes it in place, and adding or removing one moves the entity between tables, so no
+ * per entity objects are created as components change. Entities handed out are views of the stored components rather
+ * than snapshots, they reflect later changes and throw once the entity is removed.
+ */
+export class ArchetypeStorage implements ComponentStorage {
+  private typeIds = new Map<ComponentConstructor, number>();
+  private archetypes = new Map<string, Archetype>();
+  private locations = new Map<EntityId, Location>();
+  private views = new Map<EntityId, Entity>();
+
+  create(id: EntityId, components: Component[]): void {
+    if (this.locations.has(id)) {
+      this.destroy(id);
+    }
+    const byType = new Map<ComponentConstructor, Component>();
+    for (const component of components) {
+      byType.set(typeOf(component), component);
+    }
+    const archetype = this.archetypeFor(Array.from(byType.keys()));
+    const location = {
+      archetype,
+      row: archetype.push(id, byType),
+      removed: false,
+    };
+    this.locations.set(id, location);
+    this.views.set(id, new ArchetypeEntity(id, location));
+  }
+
+  destroy(id: EntityId): void {
+    const location = this.locations.get(id);
+    if (location) {
+      this.detach(location);
+      location.removed = true;
+      this.locations.delete(id);
+      this.views.delete(id);
+    }
+  }
+
+  has(id: EntityId): boolean {
+    return this.locations.has(id);
+  }
+
+  set(id: EntityId, component: Component): void {
+    const location = this.locations.get(id)!;
+    const type = typeOf(component);
+    const column = location.archetype.columns.get(type);
+    if (column) {
+      column[location.row] = component;
+      return;
+    }
+    let target = location.archetype.withType.get(type);
+    if (!target) {
+      target = this.archetypeFor([...location.archetype.types, type]);
+      location.archetype.withType.set(type, target);
+    }
+    const components = location.archetype.row(location.row);
+    components.set(type, component);
+    this.move(id, location, target, components);
+  }
+
+  remove(id: EntityId, type: ComponentConstructor): void {
+    const location = this.locations.get(id)!;
+    if (!location.archetype.columns.has(type)) {
+      return;
+    }
+    let target = location.archetype.withoutType.get(type);
+    if (!target) {
+      target = this.archetypeFor(
+        location.archetype.types.filter((t) => t !== type)
+      );
+      location.archetype.withoutType.set(type, target);
+    }
+    const components = location.archetype.row(location.row);
+    components.delete(type);
+    this.move(id, location, target, components);
+  }
+
+  get<T extends ComponentConstructor>(
+    id: EntityId,
+    type: T
+  ): InstanceType<T> | undefined {
+    const location = this.locations.get(id);
+    const column = location && location.archetype.columns.get(type);
+    return column ? (column[location!.row] as InstanceType<T>) : undefined;
+  }
+
+  entity(id: EntityId): Entity {
+    return this.views.get(id)!;
+  }
+
+  ids(): EntityId[] {
+    return Array.from(this.locations.keys());
+  }
+
+  count(): number {
+    return this.locations.size;
+  }
+
+  /** Get the number of distinct sets of component types currently in use */
+  archetypeCount(): number {
+    return Array.from(this.archetypes.values()).filter(
+      (archetype) => archetype.ids.length !== 0
+    ).length;
+  }
+
+  private move(
+    id: EntityId,
+    from: Location,
+    to: Archetype,
+    components: Map<ComponentConstructor, Component>
+  ): void {
+    this.detach(from);
+    from.archetype = to;
+    from.row = to.push(id, components);
+  }
+
+  private detach(location: Location): void {
+    const moved = location.archetype.swapRemove(location.row);
+    if (moved !== undefined) {
+      this.locations.get(moved)!.row = location.row;
+    }
+  }
+
+  private archetypeFor(types: ComponentConstructor[]): Archetype {
+    const key = types
+      .map((type) => this.typeId(type))
+      .sort((a, b) => a - b)
+      .join(',');
+    let archetype = this.archetypes.get(key);
+    if (!archetype) {
+      archetype = new Archetype(types);
+      this.archetypes.set(key, archetype);
+    }
+    return archetype;
+  }
+
+  private typeId(type: ComponentConstructor): number {
+    let id = this.typeIds.get(type);
+    if (id === undefined) {
+      id = this.typeIds.size;
+      this.typeIds.set(type, id);
+    }
+    return id;
+  }
+}
@@ -0,0 +1,49 @@
+import { CommandBuffer } from './command-buffer';
+import { Component, ComponentConstructor } from './component';
+import { Entity } from './entity';
+import { EntityManager } from './entity-manager';
+import { CtorsOf } from './types';
+
+/** Everything a system is given to work with on each tick */
+export interface SystemContext {
+  /** The entity manager being ticked */
+  em: EntityManager;
+  /** Time elapsed since the previous tick */
+  dt: number;
+  /** Buffer for changes that would alter the entities being iterated, flushed at the scheduler's sync point */
+  commands: CommandBuffer;
+}
+
+/** Logic that is run against the entities of an EntityManager once per tick of a Scheduler
+ *
+ * A system declares the component types it operates on, and by default has process() called for every entity that has
+ * all of them. Systems that don't work on a per entity basis (e.g. input polling) can override update() instead.
+ */
+export abstract class System<T extends Component[] = Component[]> {
+  readonly types: ComponentConstructor[];
+
+  /**
+   * @param types - Component types an entity must have for process() to be called on it
+   */
+  constructor(...types: CtorsOf<T>) {
+    this.types = types as ComponentConstructor[];
+  }
+
+  /** Run the system for a single tick
+   *
+   * @note - Adding or removing components or entities while iterating should go through the context's commands
+   */
+  update(ctx: SystemContext): void {
+    ctx.em.each(
+      (e: Entity, ...components: Component[]) =>
+        this.process(ctx, e, ...(components as T)),
+      ...this.types
+    );
+  }
+
+  /** Process a single entity that has all of the system's component types
+   *
+   * @note - Order of the components matches the order of the types given to the constructor
+   */
+  process(ctx: SystemContext, e: Entity, ...components: T): void {}
+}
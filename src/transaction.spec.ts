@@ -0,0 +1,154 @@
+import { ComponentChange, EntityId, EntityManager } from './entity-manager';
+import { Entity } from './entity';
+import { Physical, Position, Renderable, Size } from './dummy-components.model';
+
+const ID_NOT_EXIST = 9999999;
+
+describe('Transactions', () => {
+  let em: EntityManager;
+  let existingId: EntityId;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    em.indexBy(Position);
+    existingId = em.create(new Position({ x: 1, y: 1 })).id;
+    em.setName(existingId, 'existing');
+  });
+
+  it('should apply all changes on commit', () => {
+    let createdId!: EntityId;
+    em.transaction((tx) => {
+      createdId = tx.create(new Renderable('created', 1));
+      tx.setComponent(existingId, new Position({ x: 2, y: 2 }));
+      tx.setComponent(createdId, new Physical(Size.FILL));
+      tx.setName(createdId, 'created');
+    });
+    expect(em.getComponent(existingId, Position)).toEqual(
+      new Position({ x: 2, y: 2 })
+    );
+    expect(em.getNamed('created').has([Renderable, Physical])).toBe(true);
+    expect(em.matchingIndex(new Position({ x: 2, y: 2 })).length).toEqual(1);
+  });
+
+  it('should not apply changes until the callback returns', () => {
+    em.transaction((tx) => {
+      tx.setComponent(existingId, new Position({ x: 2, y: 2 }));
+      expect(em.getComponent(existingId, Position)).toEqual(
+        new Position({ x: 1, y: 1 })
+      );
+    });
+  });
+
+  it('should return the result of the callback', () => {
+    const id = em.transaction((tx) => tx.create());
+    expect(em.exists(id)).toBe(true);
+  });
+
+  it('should apply nothing if the callback throws', () => {
+    expect(() =>
+      em.transaction((tx) => {
+        tx.create(new Position({ x: 5, y: 5 }));
+        throw Error('abort');
+      })
+    ).toThrow();
+    expect(em.count()).toEqual(1);
+  });
+
+  it('should reject removing an entity that does not exist', () => {
+    expect(() =>
+      em.transaction((tx) => {
+        tx.setComponent(existingId, new Position({ x: 2, y: 2 }));
+        tx.remove(ID_NOT_EXIST);
+      })
+    ).toThrow(`Entity with id: ${ID_NOT_EXIST} doesn't exist!`);
+    expect(em.getComponent(existingId, Position)).toEqual(
+      new Position({ x: 1, y: 1 })
+    );
+  });
+
+  it('should roll back every index if a change fails', () => {
+    const before = em.export();
+    const otherId = em.create(new Renderable('other', 1)).id;
+    const withOther = em.export();
+    expect(() =>
+      em.transaction((tx) => {
+        const id = tx.create(new Position({ x: 3, y: 3 }));
+        tx.setName(id, 'existing');
+        tx.setComponent(existingId, new Position({ x: 4, y: 4 }));
+        tx.removeComponent(otherId, Renderable);
+        tx.remove(otherId);
+        tx.setComponent(ID_NOT_EXIST, new Position({ x: 0, y: 0 }));
+      })
+    ).toThrow();
+    expect(em.export()).toEqual(withOther);
+    expect(before).not.toEqual(withOther);
+    expect(em.getNamed('existing').id).toEqual(existingId);
+    expect(em.matchingIds(Position)).toEqual([existingId]);
+    expect(em.matchingIds(Renderable)).toEqual([otherId]);
+    expect(em.countIndex(new Position({ x: 1, y: 1 }))).toEqual(1);
+    expect(em.countIndex(new Position({ x: 3, y: 3 }))).toEqual(0);
+    expect(em.countIndex(new Position({ x: 4, y: 4 }))).toEqual(0);
+  });
+
+  it('should send no notifications for a rolled back transaction', () => {
+    let notified = 0;
+    em.observeComponentType$(Position).subscribe(() => ++notified);
+    em.observeEntity$(existingId).subscribe(() => ++notified);
+    expect(() =>
+      em.transaction((tx) => {
+        tx.setComponent(existingId, new Position({ x: 4, y: 4 }));
+        tx.remove(ID_NOT_EXIST);
+        tx.removeComponent(ID_NOT_EXIST, Position);
+      })
+    ).toThrow();
+    expect(notified).toEqual(0);
+  });
+
+  it('should coalesce notifications on commit', () => {
+    const changes: ComponentChange<Position>[] = [];
+    const entities: (Entity | null)[] = [];
+    em.observeComponentType$(Position).subscribe((c) => changes.push(c));
+    em.observeEntity$(existingId).subscribe((e) => entities.push(e));
+    em.transaction((tx) => {
+      tx.setComponent(existingId, new Position({ x: 2, y: 2 }));
+      tx.setComponent(existingId, new Position({ x: 3, y: 3 }));
+      tx.setComponent(existingId, new Renderable('r', 1));
+      const id = tx.create(new Position({ x: 9, y: 9 }));
+      tx.remove(id);
+    });
+    expect(changes.length).toEqual(1);
+    expect(changes[0].kind).toEqual('updated');
+    expect(changes[0].c).toEqual(new Position({ x: 3, y: 3 }));
+    expect(changes[0].previous).toEqual(new Position({ x: 1, y: 1 }));
+    expect(entities.length).toEqual(1);
+    expect(entities[0]!.has([Position, Renderable])).toBe(true);
+  });
+
+  it('should notify removals on commit', () => {
+    const changes: ComponentChange<Position>[] = [];
+    em.observeComponentType$(Position).subscribe((c) => changes.push(c));
+    em.transaction((tx) => tx.remove(existingId));
+    expect(changes).toEqual([
+      {
+        id: existingId,
+        kind: 'removed',
+        e: undefined,
+        previous: new Position({ x: 1, y: 1 }),
+      },
+    ]);
+  });
+
+  it('should update views once committed', () => {
+    const view = em.view(em.query().with(Position));
+    const entered: EntityId[] = [];
+    view.entered$.subscribe((e) => entered.push(e.id));
+    const id = em.transaction((tx) => {
+      const created = tx.create();
+      tx.setComponent(created, new Position({ x: 1, y: 1 }));
+      tx.removeComponent(existingId, Position);
+      return created;
+    });
+    expect(view.ids()).toEqual([id]);
+    expect(entered).toEqual([id]);
+  });
+});
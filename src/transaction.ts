@@ -0,0 +1,92 @@
+import { Component, ComponentConstructor } from './component';
+import { EntityId } from './entity-manager';
+
+/** A change requested through a Transaction, waiting to be applied */
+export type TransactionOperation =
+  | { type: 'create'; id: EntityId; components: Component[] }
+  | { type: 'remove'; id: EntityId }
+  | { type: 'setComponent'; id: EntityId | string; component: Component }
+  | {
+      type: 'removeComponent';
+      id: EntityId | string;
+      componentType: ComponentConstructor;
+    }
+  | { type: 'setName'; id: EntityId; name: string };
+
+/** Buffer of changes to be applied to an EntityManager together, or not at all
+ *
+ * Nothing is applied until the transaction is committed, so reading from the entity manager while recording changes
+ * gives the state from before the transaction.
+ *
+ * @see EntityManager.transaction - Records and commits a transaction
+ */
+export class Transaction {
+  private operations_: TransactionOperation[] = [];
+
+  /**
+   * @param reserveId - Provides the id for each entity that the transaction creates
+   */
+  constructor(private reserveId: () => EntityId) {}
+
+  /** Create a new entity when the transaction is committed
+   *
+   * @returns - The id that the entity will have
+   */
+  create(...components: (Component | undefined)[]): EntityId {
+    const id = this.reserveId();
+    this.operations_.push({
+      type: 'create',
+      id,
+      components: components
+        .filter((c): c is Component => c !== undefined)
+        .map((c) => c.clone()),
+    });
+    return id;
+  }
+
+  /** Remove an entity when the transaction is committed
+   */
+  remove(id: EntityId): void {
+    this.operations_.push({ type: 'remove', id });
+  }
+
+  /** Add or replace a component on an entity by name or ID when the transaction is committed
+   */
+  setComponent(id: EntityId | string, component: Component): void {
+    this.operations_.push({
+      type: 'setComponent',
+      id,
+      component: component.clone(),
+    });
+  }
+
+  /** Remove a component from an entity by name or ID when the transaction is committed
+   */
+  removeComponent(id: EntityId | string, type: ComponentConstructor): void {
+    this.operations_.push({ type: 'removeComponent', id, componentType: type });
+  }
+
+  /** Set the name for an entity when the transaction is committed
+   */
+  setName(id: EntityId, name: string): void {
+    this.operations_.push({ type: 'setName', id, name });
+  }
+
+  /** Get the changes recorded so far, in the order they'll be applied
+   */
+  get operations(): TransactionOperation[] {
+    return this.operations_.slice();
+  }
+
+  /** Get the number of changes recorded so far
+   */
+  get size(): number {
+    return this.operations_.length;
+  }
+
+  /** Discard all recorded changes
+   */
+  clear(): void {
+    this.operations_ = [];
+  }
+}
@@ -0,0 +1,137 @@
+import { Component, EntityId, EntityManager } from './entity-manager';
+import { Relation } from './relation';
+import { Position, Renderable } from './dummy-components.model';
+
+class Owns extends Relation {}
+
+class Follows extends Component {
+  constructor(public leader: EntityId) {
+    super();
+  }
+
+  remapEntities(remap: (id: EntityId) => EntityId | undefined) {
+    const leader = remap(this.leader);
+    return leader === undefined ? undefined : new Follows(leader);
+  }
+}
+
+class Price extends Component {
+  constructor(public amount: number) {
+    super();
+  }
+}
+
+describe('Transferring entities between entity managers', () => {
+  let main: EntityManager;
+  let level: EntityManager;
+  let player: EntityId;
+  let sword: EntityId;
+  let gem: EntityId;
+  let shopkeeper: EntityId;
+
+  beforeEach(() => {
+    main = new EntityManager();
+    level = new EntityManager();
+    level.create();
+    level.create();
+    main.indexBy(Position);
+    player = main.createNamed('player', new Position({ x: 1, y: 1 })).id;
+    sword = main.create(new Renderable('sword', 1)).id;
+    gem = main.create().id;
+    shopkeeper = main.create(new Position({ x: 5, y: 5 })).id;
+    main.setParent(sword, player);
+    main.setParent(gem, sword);
+    main.relate(player, Owns, sword);
+    main.relate(player, Owns, shopkeeper);
+    main.setComponent(shopkeeper, new Follows(player));
+    main.setComponent(gem, new Follows(player));
+  });
+
+  it('should move an entity and its descendants', () => {
+    const moved = level.transferTo(main, 1);
+    expect(main.exists(moved)).toBe(true);
+    expect(level.exists(1)).toBe(false);
+
+    const newPlayer = main.transferTo(level, player);
+    expect(newPlayer).toEqual(3);
+    expect(main.exists(player)).toBe(false);
+    expect(main.exists(sword)).toBe(false);
+    expect(main.exists(gem)).toBe(false);
+    expect(level.get(newPlayer).component(Position)).toEqual(
+      new Position({ x: 1, y: 1 })
+    );
+    const [newSword] = level.children(newPlayer);
+    const [newGem] = level.children(newSword);
+    expect(level.get(newSword).component(Renderable).image).toEqual('sword');
+    expect(level.getComponent(newGem, Follows)).toEqual(new Follows(newPlayer));
+  });
+
+  it('should update references and drop those to entities left behind', () => {
+    const newPlayer = main.transferTo(level, player);
+    const [newSword] = level.children(newPlayer);
+    expect(level.targets(newPlayer, Owns)).toEqual([newSword]);
+    expect(main.hasComponent(shopkeeper, Follows)).toBe(true);
+  });
+
+  it('should move names and value indexes', () => {
+    const newPlayer = main.transferTo(level, player);
+    expect(level.getNamed('player').id).toEqual(newPlayer);
+    expect(() => main.getNamed('player')).toThrow(
+      "Entity with name: player doesn't exist"
+    );
+    expect(main.createNamed('player').id).not.toEqual(player);
+    expect(level.matchingIndex(new Position({ x: 1, y: 1 }))[0].id).toEqual(
+      newPlayer
+    );
+  });
+
+  it('should only set up the indexes for the component types moved', () => {
+    main.setComponent(shopkeeper, new Price(10));
+    main.indexBy(Price);
+    main.createIndex('byPrice', Price, (price) => price.amount);
+    main.indexRange(Price, (price) => price.amount);
+    main.transferTo(level, player);
+    expect(() => level.matchingIndex(new Price(10))).toThrow(
+      'Component type: Price is not set up for indexing by value!'
+    );
+    expect(level.indexNames()).toEqual([]);
+    expect(() => level.inRange(Price, {})).toThrow();
+  });
+
+  it('should undo the moving of names along with the entities', () => {
+    const history = main.history();
+    main.transferTo(level, player);
+    history.undo();
+    expect(main.getNamed('player').id).toEqual(player);
+  });
+
+  it('should not move an entity whose name is in use', () => {
+    level.createNamed('player');
+    expect(() => main.transferTo(level, player)).toThrow();
+    expect(main.exists(player)).toBe(true);
+    expect(level.count()).toEqual(3);
+  });
+
+  it('should not transfer to the same entity manager', () => {
+    expect(() => main.transferTo(main, player)).toThrow();
+  });
+
+  it('should merge all entities from another entity manager', () => {
+    const mapping = level.merge(main);
+    expect(main.count()).toEqual(4);
+    expect(level.count()).toEqual(6);
+    const newPlayer = mapping.get(player)!;
+    expect(level.getNamed('player').id).toEqual(newPlayer);
+    expect(level.descendants(newPlayer)).toEqual([
+      mapping.get(sword),
+      mapping.get(gem),
+    ]);
+    expect(level.targets(newPlayer, Owns)).toEqual([
+      mapping.get(sword),
+      mapping.get(shopkeeper),
+    ]);
+    expect(level.getComponent(mapping.get(shopkeeper)!, Follows)).toEqual(
+      new Follows(newPlayer)
+    );
+  });
+});
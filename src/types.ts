@@ -1,4 +1,6 @@
-
 export type AnyJson =  boolean | number | string | null | JsonArray | JsonObject;
 export interface JsonObject { [key: string]: AnyJson; }
 export interface JsonArray extends Array<AnyJson> {}
+
+export type Ctor<C> = new (...args: any[]) => C;
+export type CtorsOf<T> = { [K in keyof T]: Ctor<T[K]> };
@@ -1,5 +1,5 @@
 
-import { setIntersect } from './utils'
+import { jsonEqual, setIntersect, structuralHash } from './utils'
 
 describe('Set intersection operation', () => {
   it('Checks intersection', () => {
@@ -9,4 +9,45 @@ describe('Set intersection operation', () => {
     expect(result).toEqual(new Set( [4, 5, 6] ));
 
   });
-});
\ No newline at end of file
+});
+
+describe('JSON equality', () => {
+  it('Compares values structurally', () => {
+    expect(jsonEqual({ a: 1, b: [1, { c: 'x' }] }, { b: [1, { c: 'x' }], a: 1 })).toBe(true);
+    expect(jsonEqual({ a: 1 }, { a: 1, b: null })).toBe(false);
+    expect(jsonEqual([1, 2], [2, 1])).toBe(false);
+    expect(jsonEqual({ 0: 1 }, [1])).toBe(false);
+    expect(jsonEqual(null, {})).toBe(false);
+  });
+});
+
+describe('Structural hashing', () => {
+  it('Gives the same hash regardless of the order values were added in', () => {
+    expect(structuralHash({ a: 1, b: [1, 2] })).toEqual(structuralHash({ b: [1, 2], a: 1 }));
+    expect(structuralHash(new Set([1, 2]))).toEqual(structuralHash(new Set([2, 1])));
+    expect(structuralHash(new Map([['a', { x: 1 }], ['b', {}]]))).toEqual(
+      structuralHash(new Map([['b', {}], ['a', { x: 1 }]]))
+    );
+    expect(structuralHash({ a: 1, b: undefined })).toEqual(structuralHash({ a: 1 }));
+  });
+
+  it('Gives different hashes for different values', () => {
+    const values = [
+      1, '1', true, 'true', null, 'null', 0, new Date(0),
+      [1, 2], [2, 1], ['1,2'], [1], [[1], 2], [1, [2]],
+      { a: 1 }, { b: 1 }, { a: '1' },
+      new Set([1]), new Map([[1, 2]]), new Map([[2, 1]])
+    ];
+    expect(new Set(values.map(structuralHash)).size).toEqual(values.length);
+  });
+
+  it('Refuses to hash a value that refers to itself', () => {
+    const value: any = { a: 1 };
+    value.self = value;
+    expect(() => structuralHash(value)).toThrow(`Can't hash a value that refers to itself`);
+    const shared = { x: 1 };
+    expect(structuralHash({ a: shared, b: shared })).toEqual(
+      structuralHash({ a: { x: 1 }, b: { x: 1 } })
+    );
+  });
+});
@@ -1,6 +1,106 @@
+import { Component, ComponentConstructor } from './component';
+import { AnyJson, JsonObject } from './types';
+
 export function setIntersect(
   left: Set<number>,
   right: Set<number>
 ): Set<number> {
   return new Set<number>(Array.from(left).filter((n: number) => right.has(n)));
 }
+
+export function typeOf(component: Component): ComponentConstructor {
+  return Object.getPrototypeOf(component).constructor;
+}
+
+/** Checks whether two JSON values are structurally equal, regardless of the order of object keys */
+export function jsonEqual(left: AnyJson, right: AnyJson): boolean {
+  if (left === right) {
+    return true;
+  }
+  if (
+    left === null ||
+    right === null ||
+    typeof left !== 'object' ||
+    typeof right !== 'object' ||
+    Array.isArray(left) !== Array.isArray(right)
+  ) {
+    return false;
+  }
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return (
+      left.length === right.length &&
+      left.every((value, i) => jsonEqual(value, right[i]))
+    );
+  }
+  const leftObject = left as JsonObject;
+  const rightObject = right as JsonObject;
+  const keys = Object.keys(leftObject);
+  return (
+    keys.length === Object.keys(rightObject).length &&
+    keys.every(
+      (key) =>
+        key in rightObject && jsonEqual(leftObject[key], rightObject[key])
+    )
+  );
+}
+
+/** Get a string that identifies a value by its structure, so that structurally equal values give the same string and
+ * different ones don't
+ *
+ * Object keys are taken in sorted order and the members of Sets and Maps are sorted, so neither depends on the order
+ * that they were added in. Properties that are undefined or functions are left out, as they are from JSON.
+ *
+ * @throws {Error} - If the value refers to itself
+ */
+export function structuralHash(value: any): string | never {
+  return hashValue(value, []);
+}
+
+function hashValue(value: any, parents: any[]): string | never {
+  switch (typeof value) {
+    case 'string':
+      return JSON.stringify(value);
+    case 'number':
+      return Object.is(value, -0) ? '0' : `${value}`;
+    case 'bigint':
+      return `${value}n`;
+    case 'boolean':
+    case 'undefined':
+      return `${value}`;
+    case 'symbol':
+    case 'function':
+      throw Error(`Can't hash a value of type: ${typeof value}`);
+  }
+  if (value === null) {
+    return 'null';
+  }
+  if (value instanceof Date) {
+    return `Date(${value.getTime()})`;
+  }
+  if (parents.indexOf(value) !== -1) {
+    throw Error(`Can't hash a value that refers to itself`);
+  }
+  parents.push(value);
+  const hashChild = (child: any) => hashValue(child, parents);
+  let hash: string;
+  if (Array.isArray(value)) {
+    hash = `[${value.map(hashChild).join(',')}]`;
+  } else if (value instanceof Set) {
+    hash = `Set{${Array.from(value).map(hashChild).sort().join(',')}}`;
+  } else if (value instanceof Map) {
+    hash = `Map{${Array.from(value)
+      .map(([key, item]) => `${hashChild(key)}=>${hashChild(item)}`)
+      .sort()
+      .join(',')}}`;
+  } else {
+    hash = `{${Object.keys(value)
+      .filter(
+        (key) => value[key] !== undefined && typeof value[key] !== 'function'
+      )
+      .sort()
+      .map((key) => `${JSON.stringify(key)}:${hashChild(value[key])}`)
+      .join(',')}}`;
+  }
+  parents.pop();
+  return hash;
+}
@@ -0,0 +1,243 @@
+import { Entity } from './entity';
+import { Component, EntityId, EntityManager } from './entity-manager';
+import { Position } from './dummy-components.model';
+
+class Allegiance extends Component {
+  faction: string;
+
+  constructor({ faction }: { faction: string }) {
+    super();
+    this.faction = faction;
+  }
+}
+
+class Rank extends Component {
+  level?: number;
+
+  constructor({ level }: { level?: number }) {
+    super();
+    this.level = level;
+  }
+}
+
+describe('Named indexes', () => {
+  let em: EntityManager;
+  let knight: EntityId;
+  let squire: EntityId;
+  let bandit: EntityId;
+
+  const ids = (entities: Entity[]) =>
+    entities.map((entity) => entity.id).sort((a, b) => a - b);
+
+  beforeEach(() => {
+    em = new EntityManager();
+    knight = em.create(
+      new Allegiance({ faction: 'crown' }),
+      new Rank({ level: 3 })
+    ).id;
+    squire = em.create(
+      new Allegiance({ faction: 'crown' }),
+      new Rank({ level: 1 })
+    ).id;
+    bandit = em.create(new Allegiance({ faction: 'outlaws' })).id;
+    em.createIndex('byFaction', Allegiance, (a) => a.faction);
+    em.createIndex('byFactionAndRank', [Allegiance, Rank], (a, r) =>
+      r.level === undefined ? undefined : [a.faction, r.level]
+    );
+  });
+
+  it('should find entities by a key taken from a component', () => {
+    expect(ids(em.findByIndex('byFaction', 'crown'))).toEqual([knight, squire]);
+    expect(em.countByIndex('byFaction', 'outlaws')).toEqual(1);
+    expect(em.findByIndex('byFaction', 'nobody')).toEqual([]);
+  });
+
+  it('should find entities by a key taken from several components', () => {
+    expect(ids(em.findByIndex('byFactionAndRank', ['crown', 3]))).toEqual([
+      knight,
+    ]);
+    expect(em.countByIndex('byFactionAndRank', ['outlaws', 1])).toEqual(0);
+  });
+
+  it('should be kept up to date as components change', () => {
+    em.setComponent(bandit, new Rank({ level: 3 }));
+    em.setComponent(bandit, new Allegiance({ faction: 'crown' }));
+    em.removeComponent(knight, Rank);
+    em.remove(squire);
+    expect(ids(em.findByIndex('byFaction', 'crown'))).toEqual([knight, bandit]);
+    expect(ids(em.findByIndex('byFactionAndRank', ['crown', 3]))).toEqual([
+      bandit,
+    ]);
+  });
+
+  it('should leave out entities whose key is undefined', () => {
+    em.setComponent(knight, new Rank({}));
+    expect(em.countByIndex('byFactionAndRank', ['crown', 3])).toEqual(0);
+  });
+
+  it('should reject components whose key is not valid', () => {
+    expect(() =>
+      em.setComponent(
+        knight,
+        new Allegiance({ faction: { name: 'crown' } as any })
+      )
+    ).toThrow(
+      `Component: Allegiance on entity: ${knight} can't be indexed, Index key: [object Object] should be a string, number or boolean, or an array of them!`
+    );
+    expect(em.getComponent(knight, Allegiance)).toEqual(
+      new Allegiance({ faction: 'crown' })
+    );
+    expect(() =>
+      em.create(new Rank({ level: NaN }), new Allegiance({ faction: 'crown' }))
+    ).toThrow("can't be indexed");
+    expect(em.count()).toEqual(3);
+  });
+
+  it('should be kept when cleared or imported into', () => {
+    const data = em.export();
+    em.clear();
+    expect(em.findByIndex('byFaction', 'crown')).toEqual([]);
+    em.import(data, { Allegiance, Rank });
+    expect(ids(em.findByIndex('byFaction', 'crown'))).toEqual([knight, squire]);
+  });
+
+  it('should reject imported data with keys that are not valid, before any changes are made', () => {
+    const data = {
+      indexed: [],
+      entities: { '1': { Allegiance: { faction: null } } },
+    };
+    expect(() => em.import(data, { Allegiance })).toThrow(
+      "Component: Allegiance on entity: 1 can't be indexed"
+    );
+    expect(em.count()).toEqual(3);
+  });
+
+  it('should be copied to entity managers that entities are transferred to', () => {
+    const other = new EntityManager();
+    const id = em.transferTo(other, knight);
+    expect(ids(other.findByIndex('byFactionAndRank', ['crown', 3]))).toEqual([
+      id,
+    ]);
+  });
+
+  it('should not allow an index name to be used twice', () => {
+    expect(() =>
+      em.createIndex('byFaction', Rank, (rank) => rank.level)
+    ).toThrow('Index with name: byFaction already exists!');
+    expect(em.dropIndex('byFaction')).toBe(true);
+    expect(em.dropIndex('byFaction')).toBe(false);
+    expect(em.indexNames()).toEqual(['byFactionAndRank']);
+    expect(() => em.findByIndex('byFaction', 'crown')).toThrow(
+      "Index: byFaction doesn't exist!"
+    );
+  });
+
+  it('should name the component type that is not set up for indexing by value', () => {
+    expect(() => em.matchingIndex(new Position({ x: 0, y: 0 }))).toThrow(
+      'Component type: Position is not set up for indexing by value!'
+    );
+  });
+});
+
+class Handle extends Component {
+  name: string;
+
+  constructor({ name }: { name: string }) {
+    super();
+    this.name = name;
+  }
+}
+
+describe('Unique indexes', () => {
+  let em: EntityManager;
+  let alice: EntityId;
+  let bob: EntityId;
+
+  beforeEach(() => {
+    em = new EntityManager();
+    alice = em.create(new Handle({ name: 'alice' })).id;
+    bob = em.create(new Handle({ name: 'bob' })).id;
+    em.indexBy(Handle, { unique: true });
+  });
+
+  it('should find the entity with a component value', () => {
+    expect(em.findUnique(new Handle({ name: 'bob' }))!.id).toEqual(bob);
+    expect(em.findUnique(new Handle({ name: 'carol' }))).toBeUndefined();
+  });
+
+  it('should reject a component value that another entity has', () => {
+    expect(() => em.setComponent(bob, new Handle({ name: 'alice' }))).toThrow(
+      `Component: Handle on entity: ${bob} has the same value as on entity: ${alice}, which should be unique!`
+    );
+    expect(() => em.create(new Handle({ name: 'bob' }))).toThrow(
+      'which should be unique!'
+    );
+    expect(em.count()).toEqual(2);
+    expect(em.getComponent(bob, Handle)).toEqual(new Handle({ name: 'bob' }));
+  });
+
+  it('should allow a value once the entity that had it lets it go', () => {
+    em.setComponent(alice, new Handle({ name: 'alice' }));
+    em.removeComponent(alice, Handle);
+    const id = em.create(new Handle({ name: 'alice' })).id;
+    expect(em.findUnique(new Handle({ name: 'alice' }))!.id).toEqual(id);
+  });
+
+  it('should check a transaction against the state once all its changes are made', () => {
+    em.transaction((tx) => {
+      tx.setComponent(alice, new Handle({ name: 'bob' }));
+      tx.setComponent(bob, new Handle({ name: 'alice' }));
+    });
+    expect(em.findUnique(new Handle({ name: 'alice' }))!.id).toEqual(bob);
+    expect(em.findUnique(new Handle({ name: 'bob' }))!.id).toEqual(alice);
+
+    expect(() =>
+      em.transaction((tx) => {
+        tx.setComponent(alice, new Handle({ name: 'carol' }));
+        tx.setComponent(bob, new Handle({ name: 'bob' }));
+        tx.setComponent(alice, new Handle({ name: 'bob' }));
+      })
+    ).toThrow('which should be unique!');
+    expect(em.getComponent(alice, Handle)).toEqual(new Handle({ name: 'bob' }));
+    expect(em.getComponent(bob, Handle)).toEqual(new Handle({ name: 'alice' }));
+    expect(em.findUnique(new Handle({ name: 'alice' }))!.id).toEqual(bob);
+    expect(em.findUnique(new Handle({ name: 'carol' }))).toBeUndefined();
+    expect(() => em.create(new Handle({ name: 'bob' }))).toThrow(
+      'which should be unique!'
+    );
+  });
+
+  it('should reject imported data with a repeated value, before any changes are made', () => {
+    const data = {
+      indexed: ['Handle'],
+      entities: {
+        '5': { Handle: { name: 'carol' } },
+        '6': { Handle: { name: 'carol' } },
+      },
+    };
+    expect(() => em.import(data, { Handle })).toThrow(
+      'Component: Handle on entity: 6 has the same value as on entity: 5, which should be unique!'
+    );
+    expect(em.count()).toEqual(2);
+  });
+
+  it('should be kept when imported into, without checking against the entities that are replaced', () => {
+    const data = em.export();
+    em.import(data, { Handle });
+    expect(em.findUnique(new Handle({ name: 'alice' }))!.id).toEqual(alice);
+    expect(() => em.create(new Handle({ name: 'alice' }))).toThrow(
+      'which should be unique!'
+    );
+  });
+
+  it('should not be set up over entities that already share a value', () => {
+    em.indexBy(Handle);
+    em.create(new Handle({ name: 'bob' }));
+    expect(() => em.indexBy(Handle, { unique: true })).toThrow(
+      `Component type: Handle can't be indexed by value, Entities: ${bob} and`
+    );
+    expect(() => em.findUnique(new Handle({ name: 'bob' }))).toThrow(
+      'Component type: Handle is not set up for unique indexing!'
+    );
+  });
+});
@@ -0,0 +1,158 @@
+import { Component, ComponentConstructor } from './component';
+import { EntityId } from './entity-manager';
+
+/** A value to index entities by, arrays of values make composite keys */
+export type IndexKey =
+  | string
+  | number
+  | boolean
+  | (string | number | boolean)[];
+
+/** Gives the key to index an entity by from its components, or undefined to leave it out of the index */
+export type IndexKeyExtractor = (...components: any[]) => IndexKey | undefined;
+
+/** Entities by a key taken from their components of one or more types
+ *
+ * An entity is only indexed while it has a component of each of the types, and only one key is kept for it. A unique
+ * index allows only one entity to have each key.
+ *
+ * @see EntityManager.createIndex - Sets up a named index
+ * @see EntityManager.indexBy - Sets up an index by the hash of a component
+ */
+export class ValueIndex {
+  private entries = new Map<string, Set<EntityId>>();
+  private entityKeys = new Map<EntityId, string>();
+
+  /**
+   * @param types - Component types that the key is taken from, in the order that they are passed to the extractor
+   * @param key - Gives the key of an entity from its component of each type
+   * @param unique - Whether to allow only one entity to have each key
+   */
+  constructor(
+    readonly types: ComponentConstructor[],
+    readonly key: IndexKeyExtractor,
+    readonly unique = false
+  ) {}
+
+  /** Index an entity by the key of its components, replacing the key it had
+   *
+   * @param components - The entity's component of each of the index's types, undefined where it has none
+   * @param allowShared - Whether to index the entity even if the index is unique and another entity has the key, for
+   *                      when uniqueness is checked once a set of changes has been made
+   *
+   * @throws {Error} - If the key isn't a string, number or boolean, or an array of them, or the index is unique and
+   *                   another entity has the key, in which case the entity is left as it was
+   */
+  update(
+    id: EntityId,
+    components: (Component | undefined)[],
+    allowShared = false
+  ): void | never {
+    const encoded = this.keyOf(components);
+    const other =
+      encoded === undefined || allowShared
+        ? undefined
+        : this.otherHolder(id, encoded);
+    if (other !== undefined) {
+      throw Error(
+        `Entities: ${other} and ${id} have the same index key: ${encoded}, which should be unique!`
+      );
+    }
+    this.remove(id);
+    if (encoded !== undefined) {
+      if (!this.entries.has(encoded)) {
+        this.entries.set(encoded, new Set<EntityId>());
+      }
+      this.entries.get(encoded)!.add(id);
+      this.entityKeys.set(id, encoded);
+    }
+  }
+
+  /** Get the key that an entity with the given components would be indexed by, in the form it's stored in
+   *
+   * @returns - The key, or undefined if the entity wouldn't be indexed
+   *
+   * @throws {Error} - If the key isn't a string, number or boolean, or an array of them
+   */
+  keyOf(components: (Component | undefined)[]): string | undefined | never {
+    if (components.some((component) => component === undefined)) {
+      return undefined;
+    }
+    const key = this.key(...components);
+    return key === undefined ? undefined : encodeKey(key);
+  }
+
+  /** Get an entity other than the given one that has a key, in the form it's stored in, if the index is unique
+   *
+   * @returns - The other entity's id, or undefined if there's none or the index isn't unique
+   */
+  otherHolder(id: EntityId, encoded: string): EntityId | undefined {
+    if (!this.unique) {
+      return undefined;
+    }
+    for (const holder of this.entries.get(encoded) || []) {
+      if (holder !== id) {
+        return holder;
+      }
+    }
+    return undefined;
+  }
+
+  /** Get the key an entity is indexed by, undefined if it isn't indexed */
+  keyOfEntity(id: EntityId): string | undefined {
+    return this.entityKeys.get(id);
+  }
+
+  remove(id: EntityId): boolean {
+    const encoded = this.entityKeys.get(id);
+    if (encoded === undefined) {
+      return false;
+    }
+    const ids = this.entries.get(encoded)!;
+    ids.delete(id);
+    if (ids.size === 0) {
+      this.entries.delete(encoded);
+    }
+    this.entityKeys.delete(id);
+    return true;
+  }
+
+  /** Get the entities indexed by a key */
+  get(key: IndexKey): EntityId[] {
+    return Array.from(this.entries.get(encodeKey(key)) || []);
+  }
+
+  /** Get the number of entities indexed by a key */
+  count(key: IndexKey): number {
+    const ids = this.entries.get(encodeKey(key));
+    return ids ? ids.size : 0;
+  }
+
+  /** Checks whether an entity is indexed by a key */
+  has(id: EntityId, key: IndexKey): boolean {
+    return this.entityKeys.get(id) === encodeKey(key);
+  }
+
+  /** Get the number of distinct keys that entities are indexed by */
+  countKeys(): number {
+    return this.entries.size;
+  }
+
+  /** Get the number of entities that are indexed */
+  countEntities(): number {
+    return this.entityKeys.size;
+  }
+}
+
+function encodeKey(key: IndexKey): string | never {
+  const valid = (value: any) =>
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && !isNaN(value));
+  if (!(Array.isArray(key) ? key.every(valid) : valid(key))) {
+    throw Error(
+      `Index key: ${key} should be a string, number or boolean, or an array of them!`
+    );
+  }
+  return JSON.stringify(key);
+}